@@ -0,0 +1,26 @@
+import {
+  CustomPuzzle,
+  getCustomPuzzleError,
+  normalizeCustomPuzzle,
+} from "../../../lib/custom-puzzle";
+import { sealCustomPuzzle } from "../../../lib/custom-puzzle-token";
+import { loadGuessDictionary } from "../../../lib/word-bank";
+import { readJsonBody } from "../http";
+
+export const dynamic = "force-dynamic";
+
+/** Seals a chosen word into a link token; the word itself never appears in the link. */
+export async function POST(request: Request) {
+  const body = await readJsonBody<CustomPuzzle>(request);
+  const puzzle = normalizeCustomPuzzle(body);
+  // Without the dictionary only solution words pass, and the error below says as much.
+  if (puzzle) await loadGuessDictionary(puzzle.word.length).catch(() => undefined);
+  const error = getCustomPuzzleError(body);
+  if (error || !puzzle) return Response.json({ error }, { status: 400 });
+  try {
+    return Response.json({ token: sealCustomPuzzle(puzzle) }, { status: 201 });
+  } catch (caught) {
+    console.error(caught);
+    return Response.json({ error: "Something went wrong" }, { status: 500 });
+  }
+}
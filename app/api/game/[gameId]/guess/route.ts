@@ -0,0 +1,25 @@
+import { submitSessionGuess, toPublicSession } from "../../../../../lib/game-session";
+import { getSession } from "../../../../../lib/game-session-store";
+import { loadGuessDictionary } from "../../../../../lib/word-bank";
+import { readJsonBody } from "../../../http";
+import { GameRouteContext, gameErrorResponse } from "../../http";
+
+export const dynamic = "force-dynamic";
+
+/** Validates and evaluates a guess server-side; the solution comes back only once the game ends. */
+export async function POST(request: Request, { params }: GameRouteContext) {
+  const { gameId } = await params;
+  const { guess = "", hardMode } = await readJsonBody<{ guess: string; hardMode: boolean }>(
+    request,
+  );
+  try {
+    const session = getSession(gameId);
+    await loadGuessDictionary(session.config.wordLength);
+    const evaluation = submitSessionGuess(session, String(guess), {
+      hardMode: typeof hardMode === "boolean" ? hardMode : undefined,
+    });
+    return Response.json({ evaluation, game: toPublicSession(session) });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { resignSession, toPublicSession } from "../../../../../lib/game-session";
+import { getSession } from "../../../../../lib/game-session-store";
+import { GameRouteContext, gameErrorResponse } from "../../http";
+
+export const dynamic = "force-dynamic";
+
+/** Gives up on the game, which counts as a loss and reveals the word. */
+export async function POST(_request: Request, { params }: GameRouteContext) {
+  const { gameId } = await params;
+  try {
+    const session = getSession(gameId);
+    resignSession(session);
+    return Response.json({ game: toPublicSession(session) });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { toPublicSession } from "../../../../lib/game-session";
+import { getSession } from "../../../../lib/game-session-store";
+import { GameRouteContext, gameErrorResponse } from "../http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, { params }: GameRouteContext) {
+  const { gameId } = await params;
+  try {
+    return Response.json({ game: toPublicSession(getSession(gameId)) });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { GameSessionError, GameSessionErrorCode } from "../../../lib/game-session";
+
+const STATUS_BY_CODE: Record<GameSessionErrorCode, number> = {
+  "not-found": 404,
+  finished: 409,
+  "invalid-request": 400,
+  "invalid-guess": 422,
+};
+
+export type GameRouteContext = { params: Promise<{ gameId: string }> };
+
+export function gameErrorResponse(error: unknown): Response {
+  if (error instanceof GameSessionError) {
+    return Response.json(
+      { error: error.message, code: error.code },
+      { status: STATUS_BY_CODE[error.code] },
+    );
+  }
+  console.error(error);
+  return Response.json({ error: "Something went wrong" }, { status: 500 });
+}
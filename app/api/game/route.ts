@@ -0,0 +1,50 @@
+import { GameConfig, normalizeGameConfig } from "../../../lib/wordle";
+import { toPublicSession } from "../../../lib/game-session";
+import { createSession } from "../../../lib/game-session-store";
+import { RECENT_SOLUTION_WINDOW, WordFilter, isWordFilter } from "../../../lib/selection";
+import { readJsonBody } from "../http";
+import { gameErrorResponse } from "./http";
+
+export const dynamic = "force-dynamic";
+
+interface StartGameBody {
+  config: Partial<GameConfig>;
+  hardMode: boolean;
+  puzzleId: string;
+  dailyKey: string;
+  filter: WordFilter;
+  recent: string[];
+  review: { words: string[]; rate: number };
+}
+
+function parseReview(review: StartGameBody["review"] | undefined) {
+  if (!Array.isArray(review?.words) || typeof review.rate !== "number") return undefined;
+  return {
+    words: review.words.filter((word) => typeof word === "string"),
+    rate: Math.min(1, Math.max(0, review.rate)),
+  };
+}
+
+/** Starts a server-held game; the response never includes the solution. */
+export async function POST(request: Request) {
+  const { config, hardMode, puzzleId, dailyKey, filter, recent, review } =
+    await readJsonBody<StartGameBody>(request);
+  try {
+    const session = createSession({
+      config: normalizeGameConfig(config),
+      hardMode: hardMode === true,
+      puzzleId: typeof puzzleId === "string" ? puzzleId : undefined,
+      dailyKey: typeof dailyKey === "string" ? dailyKey : undefined,
+      selection: {
+        filter: isWordFilter(filter) ? filter : undefined,
+        recent: Array.isArray(recent)
+          ? recent.filter((word) => typeof word === "string").slice(0, RECENT_SOLUTION_WINDOW)
+          : undefined,
+        review: parseReview(review),
+      },
+    });
+    return Response.json({ game: toPublicSession(session) }, { status: 201 });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+}
@@ -0,0 +1,7 @@
+export async function readJsonBody<T>(request: Request): Promise<Partial<T>> {
+  try {
+    return (await request.json()) as Partial<T>;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,76 @@
+import { RaceRoom, toPublicRoom } from "../../../../../lib/race";
+import { getRoom, markPlayerConnected, subscribeToRoom } from "../../../../../lib/race-store";
+import { RoomRouteContext, getRaceToken, raceErrorResponse } from "../../http";
+
+export const dynamic = "force-dynamic";
+
+const KEEP_ALIVE_MS = 15_000;
+
+/**
+ * Server-sent events stream of room snapshots, personalized for the viewer's token so each
+ * player only ever receives their own letters.
+ */
+export async function GET(request: Request, { params }: RoomRouteContext) {
+  const { roomId } = await params;
+  const token = getRaceToken(request);
+
+  let room: RaceRoom;
+  try {
+    // Checking in first lets a player who reloads within the grace period keep their seat.
+    markPlayerConnected(roomId, token);
+    room = getRoom(roomId);
+  } catch (error) {
+    return raceErrorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  let isClosed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (current: RaceRoom) => {
+        const payload = JSON.stringify(toPublicRoom(current, token));
+        controller.enqueue(encoder.encode(`data: ${payload}\n\n`));
+      };
+
+      const close = () => {
+        if (isClosed) return;
+        isClosed = true;
+        cleanup();
+        controller.close();
+      };
+
+      send(room);
+      const unsubscribe = subscribeToRoom(room.id, { send, close });
+      const keepAlive = setInterval(() => {
+        try {
+          markPlayerConnected(room.id, token);
+        } catch {
+          // The room expired while this stream was open.
+          close();
+          return;
+        }
+        controller.enqueue(encoder.encode(": keep-alive\n\n"));
+      }, KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      isClosed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { submitRaceGuess, toPublicRoom } from "../../../../../lib/race";
+import { getRoom, updateRoom } from "../../../../../lib/race-store";
+import { loadGuessDictionary } from "../../../../../lib/word-bank";
+import { readJsonBody } from "../../../http";
+import { RoomRouteContext, getRaceToken, raceErrorResponse } from "../../http";
+
+export const dynamic = "force-dynamic";
+
+/** Evaluates a guess server-side; the response carries only the caller's feedback. */
+export async function POST(request: Request, { params }: RoomRouteContext) {
+  const { roomId } = await params;
+  const token = getRaceToken(request) ?? "";
+  const { guess = "" } = await readJsonBody<{ guess: string }>(request);
+  try {
+    await loadGuessDictionary(getRoom(roomId).config.wordLength);
+    let evaluation: ReturnType<typeof submitRaceGuess> = [];
+    const room = updateRoom(roomId, (current) => {
+      evaluation = submitRaceGuess(current, token, String(guess));
+      return current;
+    });
+    return Response.json({ evaluation, room: toPublicRoom(room, token) });
+  } catch (error) {
+    return raceErrorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { joinRaceRoom, toPublicRoom } from "../../../../../lib/race";
+import { createPlayerCredentials, updateRoom } from "../../../../../lib/race-store";
+import { readJsonBody } from "../../../http";
+import { RoomRouteContext, raceErrorResponse } from "../../http";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request, { params }: RoomRouteContext) {
+  const { roomId } = await params;
+  const { name = "" } = await readJsonBody<{ name: string }>(request);
+  try {
+    const credentials = createPlayerCredentials();
+    const room = updateRoom(roomId, (current) => {
+      joinRaceRoom(current, { ...credentials, name });
+      return current;
+    });
+    return Response.json({ token: credentials.token, room: toPublicRoom(room, credentials.token) });
+  } catch (error) {
+    return raceErrorResponse(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { toPublicRoom } from "../../../../lib/race";
+import { getRoom } from "../../../../lib/race-store";
+import { RoomRouteContext, getRaceToken, raceErrorResponse } from "../http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: RoomRouteContext) {
+  const { roomId } = await params;
+  try {
+    return Response.json({ room: toPublicRoom(getRoom(roomId), getRaceToken(request)) });
+  } catch (error) {
+    return raceErrorResponse(error);
+  }
+}
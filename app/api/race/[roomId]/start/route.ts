@@ -0,0 +1,19 @@
+import { startRace, toPublicRoom } from "../../../../../lib/race";
+import { updateRoom } from "../../../../../lib/race-store";
+import { RoomRouteContext, getRaceToken, raceErrorResponse } from "../../http";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request, { params }: RoomRouteContext) {
+  const { roomId } = await params;
+  const token = getRaceToken(request) ?? "";
+  try {
+    const room = updateRoom(roomId, (current) => {
+      startRace(current, token);
+      return current;
+    });
+    return Response.json({ room: toPublicRoom(room, token) });
+  } catch (error) {
+    return raceErrorResponse(error);
+  }
+}
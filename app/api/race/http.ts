@@ -0,0 +1,29 @@
+import { RaceError, RaceErrorCode } from "../../../lib/race";
+
+const STATUS_BY_CODE: Record<RaceErrorCode, number> = {
+  "not-found": 404,
+  unauthorized: 403,
+  "room-full": 409,
+  "not-started": 409,
+  started: 409,
+  finished: 409,
+  "invalid-name": 400,
+  "invalid-guess": 422,
+};
+
+export type RoomRouteContext = { params: Promise<{ roomId: string }> };
+
+export function raceErrorResponse(error: unknown): Response {
+  if (error instanceof RaceError) {
+    return Response.json(
+      { error: error.message, code: error.code },
+      { status: STATUS_BY_CODE[error.code] },
+    );
+  }
+  console.error(error);
+  return Response.json({ error: "Something went wrong" }, { status: 500 });
+}
+
+export function getRaceToken(request: Request): string | null {
+  return request.headers.get("x-race-token") ?? new URL(request.url).searchParams.get("token");
+}
@@ -0,0 +1,22 @@
+import { joinRaceRoom, toPublicRoom } from "../../../lib/race";
+import { createPlayerCredentials, createRoom, updateRoom } from "../../../lib/race-store";
+import { readJsonBody } from "../http";
+import { raceErrorResponse } from "./http";
+
+export const dynamic = "force-dynamic";
+
+/** Creates a room and joins the caller as its host. */
+export async function POST(request: Request) {
+  const { name = "" } = await readJsonBody<{ name: string }>(request);
+  try {
+    const room = createRoom();
+    const credentials = createPlayerCredentials();
+    updateRoom(room.id, (current) => joinRaceRoom(current, { ...credentials, name }));
+    return Response.json(
+      { token: credentials.token, room: toPublicRoom(room, credentials.token) },
+      { status: 201 },
+    );
+  } catch (error) {
+    return raceErrorResponse(error);
+  }
+}
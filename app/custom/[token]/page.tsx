@@ -0,0 +1,64 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { WordleGame } from "../../../components/WordleGame";
+import { openCustomPuzzle } from "../../../lib/custom-puzzle-token";
+
+export const metadata: Metadata = {
+  title: "Challenge · Wordle Practice",
+  description: "A Wordle someone picked the word for.",
+};
+
+interface CustomPuzzlePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function CustomPuzzlePage({ params }: CustomPuzzlePageProps) {
+  const { token } = await params;
+  const custom = openCustomPuzzle(token);
+
+  return (
+    <div className="flex min-h-[100dvh] flex-col items-center bg-zinc-950 text-zinc-100">
+      <header className="flex min-h-[4rem] w-full items-center justify-center border-b border-zinc-800 px-4 pt-[env(safe-area-inset-top,0px)]">
+        <div className="flex w-full max-w-3xl items-center justify-between gap-4">
+          <h1 className="text-lg font-semibold uppercase tracking-[0.4em] text-zinc-200">
+            Challenge
+          </h1>
+          <Link
+            href="/"
+            className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 transition hover:text-zinc-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+          >
+            Practice
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex w-full flex-1 flex-col items-center gap-8 px-4 py-10 sm:gap-12 sm:px-6 sm:py-12">
+        <section className="max-w-xl text-center">
+          <h2 className="text-xl font-medium text-zinc-300">
+            {!custom
+              ? "This puzzle link is broken or has been changed."
+              : custom.message
+                ? `“${custom.message}”`
+                : `Someone picked this word for you. ${custom.maxGuesses} guesses.`}
+          </h2>
+          {custom?.message && (
+            <p className="mt-2 text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+              {custom.word.length} letters · {custom.maxGuesses} guesses
+            </p>
+          )}
+        </section>
+
+        {custom ? (
+          <WordleGame mode="custom" custom={custom} />
+        ) : (
+          <Link
+            href="/create"
+            className="text-xs font-semibold uppercase tracking-[0.35em] text-emerald-400 transition hover:text-emerald-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+          >
+            Make a new one
+          </Link>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { OpenerTrainer } from "../../components/OpenerTrainer";
+
+export const metadata: Metadata = {
+  title: "Openers · Wordle Practice",
+  description: "Train your first guess against the whole answer list.",
+};
+
+export default function OpenersPage() {
+  return (
+    <div className="flex min-h-[100dvh] flex-col items-center bg-zinc-950 text-zinc-100">
+      <header className="flex min-h-[4rem] w-full items-center justify-center border-b border-zinc-800 px-4 pt-[env(safe-area-inset-top,0px)]">
+        <div className="flex w-full max-w-3xl items-center justify-between gap-4">
+          <h1 className="text-lg font-semibold uppercase tracking-[0.4em] text-zinc-200">
+            Openers
+          </h1>
+          <Link
+            href="/"
+            className="text-xs font-semibold uppercase tracking-[0.35em] text-zinc-500 transition hover:text-zinc-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+          >
+            Practice
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex w-full flex-1 flex-col items-center gap-8 px-4 py-10 sm:gap-12 sm:px-6 sm:py-12">
+        <section className="text-center">
+          <h2 className="text-xl font-medium text-zinc-300">
+            Half the game is the first guess. Find out what yours leaves behind.
+          </h2>
+        </section>
+
+        <OpenerTrainer />
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,47 @@
-import { WordleGame, openStatsModal } from "../components/WordleGame";
+import Link from "next/link";
+import { DailyCountdown } from "../components/DailyCountdown";
+import { GameEngine, PlayMode, WordleGame, openStatsModal } from "../components/WordleGame";
+
+interface HomeProps {
+  searchParams: Promise<{ puzzle?: string | string[]; mode?: string | string[] }>;
+}
+
+const MODE_LINKS: { mode: PlayMode; label: string; href: string }[] = [
+  { mode: "practice", label: "Practice", href: "/" },
+  { mode: "daily", label: "Daily", href: "/?mode=daily" },
+  { mode: "review", label: "Review", href: "/?mode=review" },
+];
+
+// Modes with their own page rather than a `mode` on this one.
+const PAGE_LINKS: { label: string; href: string }[] = [
+  { label: "Multi", href: "/multi" },
+  { label: "Adversarial", href: "/adversarial" },
+  { label: "Race", href: "/race" },
+  { label: "Openers", href: "/openers" },
+  { label: "Create", href: "/create" },
+];
+
+const MODE_HEADINGS: Record<PlayMode, string> = {
+  practice: "Unlimited Wordle runs, no daily cap.",
+  daily: "One shared word a day, one attempt.",
+  review: "The words that got away, back on a schedule.",
+  custom: "A word picked by a friend, kept out of your stats.",
+};
+
+function parseMode(value: string | undefined): PlayMode {
+  return MODE_LINKS.find((link) => link.mode === value)?.mode ?? "practice";
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  const { puzzle, mode: modeParam } = await searchParams;
+  const puzzleId = Array.isArray(puzzle) ? puzzle[0] : puzzle;
+  // Shared puzzle links always open in practice so they never touch the daily streak.
+  const mode = puzzleId
+    ? "practice"
+    : parseMode(Array.isArray(modeParam) ? modeParam[0] : modeParam);
+  // WORDLE_ENGINE=server keeps solutions on the server; the default evaluates in the browser.
+  const engine: GameEngine = process.env.WORDLE_ENGINE === "server" ? "server" : "local";
 
-export default function Home() {
   return (
     <div className="flex min-h-[100dvh] flex-col items-center bg-zinc-950 text-zinc-100">
       <header className="flex min-h-[4rem] w-full items-center justify-center border-b border-zinc-800 px-4 pt-[env(safe-area-inset-top,0px)]">
@@ -8,6 +49,31 @@ export default function Home() {
           <h1 className="text-lg font-semibold uppercase tracking-[0.4em] text-zinc-200">
             Wordle Practice
           </h1>
+          <nav className="flex items-center gap-1 rounded-md border border-zinc-800 p-0.5">
+            {MODE_LINKS.map((link) => (
+              <Link
+                key={link.mode}
+                href={link.href}
+                aria-current={link.mode === mode ? "page" : undefined}
+                className={`rounded px-2.5 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500 ${
+                  link.mode === mode
+                    ? "bg-zinc-800 text-zinc-100"
+                    : "text-zinc-500 hover:text-zinc-300"
+                }`}
+              >
+                {link.label}
+              </Link>
+            ))}
+            {PAGE_LINKS.map((link) => (
+              <Link
+                key={link.href}
+                href={link.href}
+                className="rounded px-2.5 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-500 transition hover:text-zinc-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+              >
+                {link.label}
+              </Link>
+            ))}
+          </nav>
           <button
             type="button"
             onClick={openStatsModal}
@@ -20,12 +86,11 @@ export default function Home() {
 
       <main className="flex w-full flex-1 flex-col items-center gap-8 px-4 py-10 sm:gap-12 sm:px-6 sm:py-12">
         <section className="text-center">
-          <h2 className="text-xl font-medium text-zinc-300">
-            Unlimited Wordle runs, no daily cap.
-          </h2>
+          <h2 className="text-xl font-medium text-zinc-300">{MODE_HEADINGS[mode]}</h2>
+          {mode === "daily" && <DailyCountdown label="Next puzzle in" className="mt-2" />}
         </section>
 
-        <WordleGame />
+        <WordleGame key={mode} mode={mode} engine={engine} initialPuzzleId={puzzleId} />
       </main>
 
       <footer className="flex min-h-[4.5rem] w-full items-center justify-center border-t border-zinc-800 px-4 pb-[env(safe-area-inset-bottom,0px)]">
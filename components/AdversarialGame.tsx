@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getEmptyBoard, getKeyboardState, isValidGuess, normalizeGuess } from "../lib/wordle";
+import { isGuessDictionaryLoaded, loadGuessDictionary } from "../lib/word-bank";
+import {
+  AdversarialGame as AdversarialGameState,
+  createAdversarialGame,
+  getAdversarialSolution,
+  playAdversarialGuess,
+} from "../lib/adversary";
+import { Board, Keyboard } from "./WordleGame";
+import { useAlert } from "./useAlert";
+
+export function AdversarialGame() {
+  const [game, setGame] = useState<AdversarialGameState>(() => createAdversarialGame());
+  const [currentGuess, setCurrentGuess] = useState("");
+  const { alert, showAlert } = useAlert();
+  const { config, rows, status } = game;
+  const solution = getAdversarialSolution(game);
+
+  useEffect(() => {
+    loadGuessDictionary(config.wordLength).catch(() => showAlert("Couldn't load the word list"));
+  }, [config.wordLength, showAlert]);
+
+  const commitGuess = useCallback(() => {
+    if (status !== "playing") return;
+    if (currentGuess.length !== config.wordLength) {
+      showAlert("Not enough letters");
+      return;
+    }
+    const normalized = normalizeGuess(currentGuess);
+    if (!isValidGuess(normalized, config)) {
+      showAlert(
+        isGuessDictionaryLoaded(config.wordLength) ? "Not in word list" : "Loading word list",
+      );
+      return;
+    }
+
+    const next = playAdversarialGuess(game, normalized);
+    setGame(next);
+    setCurrentGuess("");
+    if (next.status === "won") {
+      showAlert(`Cornered in ${next.rows.length}`);
+    } else if (next.status === "lost") {
+      showAlert(getAdversarialSolution(next)?.toUpperCase() ?? "Out of guesses");
+    }
+  }, [config, currentGuess, game, showAlert, status]);
+
+  const handleLetter = useCallback(
+    (letter: string) => {
+      if (status !== "playing") return;
+      setCurrentGuess((prev) => (prev.length >= config.wordLength ? prev : `${prev}${letter}`));
+    },
+    [config.wordLength, status],
+  );
+
+  const handleBackspace = useCallback(() => {
+    if (status !== "playing") return;
+    setCurrentGuess((prev) => prev.slice(0, -1));
+  }, [status]);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      if (event.key === "Enter") {
+        event.preventDefault();
+        commitGuess();
+      } else if (event.key === "Backspace") {
+        event.preventDefault();
+        handleBackspace();
+      } else if (/^[a-zA-Z]$/.test(event.key)) {
+        event.preventDefault();
+        handleLetter(event.key.toLowerCase());
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [commitGuess, handleBackspace, handleLetter]);
+
+  const board = useMemo(() => {
+    const next = getEmptyBoard(config);
+    rows.forEach((row, index) => {
+      next[index] = row;
+    });
+    if (status === "playing") {
+      next[rows.length] = next[rows.length].map((cell, index) => ({
+        letter: currentGuess[index] ?? "",
+        state: cell.state,
+      }));
+    }
+    return next;
+  }, [config, currentGuess, rows, status]);
+
+  const keyboard = useMemo(() => getKeyboardState(rows), [rows]);
+
+  const restart = useCallback(() => {
+    setGame(createAdversarialGame(config));
+    setCurrentGuess("");
+  }, [config]);
+
+  return (
+    <div className="relative flex w-full max-w-3xl flex-col items-center gap-5 sm:gap-6">
+      <div className="flex h-10 w-full max-w-[min(100%,320px)] items-center justify-center sm:max-w-sm">
+        <div
+          className={`min-h-[2rem] rounded bg-zinc-900/80 px-3 py-1 text-xs font-medium uppercase tracking-[0.25em] text-zinc-200 shadow transition-opacity ${
+            alert ? "opacity-100" : "opacity-0"
+          }`}
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          {alert}
+        </div>
+      </div>
+
+      <p className="text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-500">
+        {status === "playing" ? (
+          <>
+            <span className="text-zinc-300">{game.candidates.length}</span>{" "}
+            {game.candidates.length === 1 ? "word" : "words"} still possible
+          </>
+        ) : status === "won" ? (
+          `Pinned down ${solution?.toUpperCase()} in ${rows.length}`
+        ) : (
+          `It got away as ${solution?.toUpperCase()}`
+        )}
+      </p>
+
+      <Board board={board} onActivate={() => undefined} compact={config.maxGuesses > 8} />
+
+      <Keyboard
+        keyboardState={keyboard}
+        onEnter={commitGuess}
+        onBackspace={handleBackspace}
+        onLetter={handleLetter}
+      />
+
+      {status !== "playing" && (
+        <button
+          type="button"
+          className="mt-2 w-full rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-950 shadow transition hover:bg-emerald-400 sm:w-auto"
+          onClick={restart}
+        >
+          New Game
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import type { GuessAnalysis } from "../lib/analysis";
+
+interface AnalysisPanelProps {
+  analysis: GuessAnalysis[] | null;
+  loading: boolean;
+  onRequest: () => void;
+  onDismiss: () => void;
+}
+
+function formatBits(bits: number) {
+  return `${bits.toFixed(2)} bits`;
+}
+
+export function AnalysisPanel({ analysis, loading, onRequest, onDismiss }: AnalysisPanelProps) {
+  if (!analysis && !loading) {
+    return (
+      <button
+        type="button"
+        onClick={onRequest}
+        className="rounded-md border border-zinc-800 bg-zinc-950 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-400 shadow-sm transition hover:border-zinc-700 hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+      >
+        Review game
+      </button>
+    );
+  }
+
+  return (
+    <section
+      className="w-full max-w-md rounded-lg border border-zinc-800 bg-zinc-950 px-4 py-3 text-sm text-zinc-300"
+      aria-label="Game review"
+      aria-live="polite"
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+          {loading || !analysis ? "Reviewing guesses…" : "Game review"}
+        </h3>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-[0.65rem] uppercase tracking-[0.3em] text-zinc-500 transition hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+        >
+          Hide
+        </button>
+      </div>
+
+      {analysis && !loading && (
+        <ol className="flex flex-col gap-3">
+          {analysis.map((entry, index) => {
+            const best = entry.bestAlternative;
+            const matchedBest = best !== null && best.word === entry.guess;
+            return (
+              <li
+                key={`analysis-${index}-${entry.guess}`}
+                className="flex flex-col gap-1 border-b border-zinc-900 pb-3 last:border-b-0 last:pb-0"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-mono uppercase tracking-[0.2em] text-zinc-100">
+                    <span className="mr-2 text-xs text-zinc-600">{index + 1}</span>
+                    {entry.guess}
+                  </span>
+                  {!entry.wasPossible && (
+                    <span className="rounded bg-amber-500/15 px-2 py-0.5 text-[0.6rem] uppercase tracking-[0.25em] text-amber-400">
+                      Impossible
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-zinc-400">
+                  {entry.candidatesBefore} → {entry.candidatesAfter} possible ·{" "}
+                  <span className="text-zinc-200">{formatBits(entry.bitsEarned)}</span> earned (
+                  {formatBits(entry.expectedBits)} expected)
+                </div>
+                {best && (
+                  <div className="text-xs text-zinc-500">
+                    {matchedBest ? (
+                      <span className="text-emerald-400">Matched the solver&apos;s top pick</span>
+                    ) : (
+                      <>
+                        Best:{" "}
+                        <span className="font-mono uppercase tracking-[0.2em] text-zinc-300">
+                          {best.word}
+                        </span>{" "}
+                        · {formatBits(best.entropy)} expected, ~{best.expectedRemaining.toFixed(1)}{" "}
+                        left
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
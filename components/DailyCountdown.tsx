@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatCountdown, getMsUntilNextDaily } from "../lib/daily";
+
+interface DailyCountdownProps {
+  label: string;
+  className?: string;
+}
+
+export function DailyCountdown({ label, className }: DailyCountdownProps) {
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  useEffect(() => {
+    const update = () => setRemaining(getMsUntilNextDaily());
+    update();
+    const interval = window.setInterval(update, 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  return (
+    <p
+      className={`text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-500 ${className ?? ""}`}
+    >
+      {label}{" "}
+      <span className="font-mono text-zinc-300" suppressHydrationWarning>
+        {remaining === null ? "--:--:--" : formatCountdown(remaining)}
+      </span>
+    </p>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import type { HintResult } from "../lib/solver";
+
+interface HintPanelProps {
+  hint: HintResult | null;
+  loading: boolean;
+  onRequest: () => void;
+  onDismiss: () => void;
+}
+
+export function HintPanel({ hint, loading, onRequest, onDismiss }: HintPanelProps) {
+  if (!hint && !loading) {
+    return (
+      <button
+        type="button"
+        onClick={onRequest}
+        className="rounded-md border border-zinc-800 bg-zinc-950 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-400 shadow-sm transition hover:border-zinc-700 hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+      >
+        Hint
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="w-full max-w-sm rounded-lg border border-zinc-800 bg-zinc-950 px-4 py-3 text-sm text-zinc-300"
+      aria-live="polite"
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+          {loading || !hint
+            ? "Crunching candidates…"
+            : `${hint.candidates.length} ${hint.candidates.length === 1 ? "candidate" : "candidates"} left`}
+        </span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-[0.65rem] uppercase tracking-[0.3em] text-zinc-500 transition hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+        >
+          Hide
+        </button>
+      </div>
+
+      {hint && !loading && (
+        <ol className="flex flex-col gap-1">
+          {hint.suggestions.map((suggestion, index) => (
+            <li
+              key={`hint-${suggestion.word}`}
+              className="flex items-center justify-between gap-3 font-mono"
+            >
+              <span className="flex items-center gap-2">
+                <span className="w-4 text-right text-xs text-zinc-600">{index + 1}</span>
+                <span
+                  className={`uppercase tracking-[0.2em] ${
+                    suggestion.isCandidate ? "text-emerald-400" : "text-zinc-100"
+                  }`}
+                >
+                  {suggestion.word}
+                </span>
+              </span>
+              <span className="text-xs text-zinc-500">
+                {suggestion.entropy.toFixed(2)} bits · ~{suggestion.expectedRemaining.toFixed(1)} left
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { getEmptyBoard, isValidGuess, normalizeGuess } from "../lib/wordle";
+import { isGuessDictionaryLoaded, loadGuessDictionary } from "../lib/word-bank";
+import {
+  MULTI_BOARD_VARIANTS,
+  MultiBoardGame as MultiBoardGameState,
+  MultiBoardVariantId,
+  createMultiBoardGame,
+  getBoardProgress,
+  getMultiBoardConfig,
+  getMultiBoardStatus,
+  getSplitKeyboardState,
+  submitMultiBoardGuess,
+} from "../lib/multi-board";
+import { clearMultiBoardGame, loadMultiBoardGame, saveMultiBoardGame } from "../lib/active-game";
+import { getRecentSolutions } from "../lib/selection";
+import {
+  StatsStore,
+  createEmptyStatsStore,
+  getVariantStats,
+  loadStatsStore,
+  recordMultiBoardGame,
+  saveStatsStore,
+} from "../lib/stats";
+import { Board, Keyboard, StatsSummary } from "./WordleGame";
+import { useAlert } from "./useAlert";
+
+interface MultiBoardGameProps {
+  variant: MultiBoardVariantId;
+}
+
+export function MultiBoardGame({ variant }: MultiBoardGameProps) {
+  const { boards, maxGuesses } = MULTI_BOARD_VARIANTS[variant];
+  const [game, setGame] = useState<MultiBoardGameState>(() => createMultiBoardGame(variant));
+  const [currentGuess, setCurrentGuess] = useState("");
+  const { alert, showAlert } = useAlert();
+  const [statsStore, setStatsStore] = useState<StatsStore>(() => createEmptyStatsStore());
+  const [statsLoaded, setStatsLoaded] = useState(false);
+
+  const config = getMultiBoardConfig(game);
+  const progress = useMemo(() => getBoardProgress(game), [game]);
+  const status = getMultiBoardStatus(game);
+  const splitKeyboard = useMemo(() => getSplitKeyboardState(progress), [progress]);
+  const mode = useMemo(
+    () => ({ wordLength: game.wordLength, maxGuesses, hardMode: false, boards }),
+    [boards, game.wordLength, maxGuesses],
+  );
+  const stats = useMemo(() => getVariantStats(statsStore, mode), [mode, statsStore]);
+
+  const startGame = useCallback(
+    (store: StatsStore) => {
+      setGame(
+        createMultiBoardGame(variant, game.wordLength, Math.random, {
+          recent: getRecentSolutions(store.history, game.wordLength),
+        }),
+      );
+      setCurrentGuess("");
+    },
+    [game.wordLength, variant],
+  );
+
+  useEffect(() => {
+    let store = createEmptyStatsStore();
+    try {
+      store = loadStatsStore(window.localStorage);
+    } catch {
+      // Play on with empty stats rather than blocking the game.
+    }
+    setStatsStore(store);
+    setStatsLoaded(true);
+    // An unfinished game resumes so a reload can't dodge a loss.
+    const saved = loadMultiBoardGame(window.localStorage, variant);
+    if (saved) {
+      setGame(saved);
+    } else {
+      startGame(store);
+    }
+  }, [startGame, variant]);
+
+  useEffect(() => {
+    loadGuessDictionary(game.wordLength).catch(() => showAlert("Couldn't load the word list"));
+  }, [game.wordLength, showAlert]);
+
+  const commitGuess = useCallback(() => {
+    if (status !== "playing") return;
+    if (currentGuess.length !== game.wordLength) {
+      showAlert("Not enough letters");
+      return;
+    }
+    const normalized = normalizeGuess(currentGuess);
+    if (!isValidGuess(normalized, config)) {
+      showAlert(
+        isGuessDictionaryLoaded(game.wordLength) ? "Not in word list" : "Loading word list",
+      );
+      return;
+    }
+
+    const next = submitMultiBoardGuess(game, normalized);
+    const nextStatus = getMultiBoardStatus(next);
+    setGame(next);
+    setCurrentGuess("");
+    if (nextStatus === "playing") {
+      saveMultiBoardGame(window.localStorage, next);
+      return;
+    }
+
+    clearMultiBoardGame(window.localStorage, variant);
+    setStatsStore((prev) => {
+      const nextStore = recordMultiBoardGame(prev, mode, {
+        result: nextStatus,
+        guesses: next.guesses,
+      });
+      saveStatsStore(window.localStorage, nextStore);
+      return nextStore;
+    });
+    showAlert(nextStatus === "won" ? "All solved!" : "Out of guesses");
+  }, [config, currentGuess, game, mode, showAlert, status, variant]);
+
+  const handleLetter = useCallback(
+    (letter: string) => {
+      if (status !== "playing") return;
+      setCurrentGuess((prev) => (prev.length >= game.wordLength ? prev : `${prev}${letter}`));
+    },
+    [game.wordLength, status],
+  );
+
+  const handleBackspace = useCallback(() => {
+    if (status !== "playing") return;
+    setCurrentGuess((prev) => prev.slice(0, -1));
+  }, [status]);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      if (event.key === "Enter") {
+        event.preventDefault();
+        commitGuess();
+      } else if (event.key === "Backspace") {
+        event.preventDefault();
+        handleBackspace();
+      } else if (/^[a-zA-Z]$/.test(event.key)) {
+        event.preventDefault();
+        handleLetter(event.key.toLowerCase());
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [commitGuess, handleBackspace, handleLetter]);
+
+  const boardsWithGuess = useMemo(
+    () =>
+      progress.map((board) => {
+        const rows = getEmptyBoard(config);
+        board.rows.forEach((row, index) => {
+          rows[index] = row;
+        });
+        // Solved boards freeze; the others all show the guess being typed.
+        const activeRow = board.rows.length;
+        if (board.solvedAt === null && activeRow < rows.length) {
+          rows[activeRow] = rows[activeRow].map((cell, index) => ({
+            letter: currentGuess[index] ?? "",
+            state: cell.state,
+          }));
+        }
+        return rows;
+      }),
+    [config, currentGuess, progress],
+  );
+
+  return (
+    <div className="relative flex w-full max-w-3xl flex-col items-center gap-5 sm:gap-6">
+      <div className="flex h-10 w-full max-w-[min(100%,320px)] items-center justify-center sm:max-w-sm">
+        <div
+          className={`min-h-[2rem] rounded bg-zinc-900/80 px-3 py-1 text-xs font-medium uppercase tracking-[0.25em] text-zinc-200 shadow transition-opacity ${
+            alert ? "opacity-100" : "opacity-0"
+          }`}
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          {alert}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+        <nav className="flex items-center gap-1 rounded-md border border-zinc-800 p-0.5">
+          {Object.values(MULTI_BOARD_VARIANTS).map((option) => (
+            <Link
+              key={option.id}
+              href={`/multi?variant=${option.id}`}
+              aria-current={option.id === variant ? "page" : undefined}
+              className={`rounded px-2.5 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500 ${
+                option.id === variant
+                  ? "bg-zinc-800 text-zinc-100"
+                  : "text-zinc-500 hover:text-zinc-300"
+              }`}
+            >
+              {option.label}
+            </Link>
+          ))}
+        </nav>
+        <p className="text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-500">
+          Guess {Math.min(game.guesses.length + 1, maxGuesses)} of {maxGuesses}
+        </p>
+      </div>
+
+      <div className="grid w-full grid-cols-2 justify-items-center gap-3 sm:gap-6">
+        {boardsWithGuess.map((rows, index) => {
+          const board = progress[index];
+          return (
+            <div
+              key={`multi-board-${index}`}
+              className={`flex w-full flex-col items-center gap-2 transition-opacity ${
+                board.solvedAt !== null ? "opacity-60" : ""
+              }`}
+            >
+              {/* Remounted once the saved game is back, so its rows aren't announced again. */}
+              <Board
+                key={statsLoaded ? "restored" : "initial"}
+                board={rows}
+                onActivate={() => undefined}
+                compact={boards > 2 || game.wordLength > 5}
+                label={`Board ${index + 1}`}
+              />
+              <p className="min-h-[1rem] text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-500">
+                {board.solvedAt !== null
+                  ? `Solved in ${board.solvedAt}`
+                  : status === "lost"
+                    ? board.solution.toUpperCase()
+                    : null}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <Keyboard
+        keyboardState={{}}
+        splitState={splitKeyboard}
+        onEnter={commitGuess}
+        onBackspace={handleBackspace}
+        onLetter={handleLetter}
+      />
+
+      {status !== "playing" && (
+        <button
+          type="button"
+          className="mt-2 w-full rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-950 shadow transition hover:bg-emerald-400 sm:w-auto"
+          onClick={() => startGame(statsStore)}
+        >
+          New Game
+        </button>
+      )}
+
+      {statsLoaded && <StatsSummary stats={stats} />}
+    </div>
+  );
+}
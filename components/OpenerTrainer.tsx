@@ -0,0 +1,342 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import { DEFAULT_GAME_CONFIG, isValidGuess, normalizeGuess } from "../lib/wordle";
+import { PRACTICE_WORDS, SUPPORTED_WORD_LENGTHS, loadGuessDictionary } from "../lib/word-bank";
+import { GuessSuggestion, scoreGuess } from "../lib/solver";
+import { createRandomPuzzle } from "../lib/puzzle";
+import { GameHistoryEntry, loadStatsStore } from "../lib/stats";
+import {
+  DEFAULT_OPENER_SETTINGS,
+  OpenerSettings,
+  getBestOpeners,
+  getOpenerResult,
+  getOpenerStats,
+  loadOpenerSettings,
+  saveOpenerSettings,
+} from "../lib/openers";
+import { Board } from "./WordleGame";
+
+const CONFIG = DEFAULT_GAME_CONFIG;
+const BEST_OPENER_COUNT = 10;
+
+const sectionClassName =
+  "flex w-full max-w-xl flex-col gap-3 rounded-lg border border-zinc-800 bg-zinc-950 px-4 py-4 text-sm text-zinc-300";
+const headingClassName = "text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500";
+const inputClassName =
+  "w-32 rounded-md border border-zinc-800 bg-zinc-900 px-3 py-1.5 font-mono uppercase tracking-[0.3em] text-zinc-100 outline-none focus-visible:border-zinc-600";
+const buttonClassName =
+  "rounded-md border border-zinc-800 px-3 py-1.5 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-400 transition hover:border-zinc-700 hover:text-zinc-200 disabled:cursor-not-allowed disabled:text-zinc-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500";
+
+function formatCount(value: number | null) {
+  return value === null ? "–" : value.toFixed(1);
+}
+
+interface DrillAttempt {
+  solution: string;
+  opener: string;
+  left: number;
+  bestLeft: number;
+}
+
+export function OpenerTrainer() {
+  const [settings, setSettings] = useState<OpenerSettings>(DEFAULT_OPENER_SETTINGS);
+  const [draft, setDraft] = useState("");
+  const [history, setHistory] = useState<GameHistoryEntry[]>([]);
+  const [bestOpeners, setBestOpeners] = useState<GuessSuggestion[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Picked after mount so the server render and hydration agree.
+  const [drillSolution, setDrillSolution] = useState<string | null>(null);
+  const [drillGuess, setDrillGuess] = useState("");
+  const [attempts, setAttempts] = useState<DrillAttempt[]>([]);
+  const lastAttempt = attempts[0]?.solution === drillSolution ? attempts[0] : null;
+
+  useEffect(() => {
+    const stored = loadOpenerSettings(window.localStorage);
+    setSettings(stored);
+    setDraft(stored.word ?? "");
+    setDrillGuess(stored.word?.length === CONFIG.wordLength ? stored.word : "");
+    setDrillSolution(createRandomPuzzle(CONFIG).solution);
+    try {
+      setHistory(loadStatsStore(window.localStorage).history);
+    } catch {
+      setHistory([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadGuessDictionary(CONFIG.wordLength)
+      .catch(() => undefined)
+      .then(() => {
+        // Let the loading state paint before the ranking blocks the thread.
+        window.setTimeout(() => {
+          if (!cancelled) setBestOpeners(getBestOpeners(CONFIG.wordLength, BEST_OPENER_COUNT));
+        }, 0);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback((next: OpenerSettings) => {
+    setSettings(next);
+    saveOpenerSettings(window.localStorage, next);
+  }, []);
+
+  const saveOpener = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+      const word = normalizeGuess(draft);
+      if (!word) {
+        updateSettings({ word: null, autoFill: false });
+        setMessage("Opener cleared");
+        return;
+      }
+      if (!SUPPORTED_WORD_LENGTHS.some((length) => length === word.length)) {
+        setMessage(`Openers are ${SUPPORTED_WORD_LENGTHS.join(", ")} letters`);
+        return;
+      }
+      await loadGuessDictionary(word.length).catch(() => undefined);
+      if (!isValidGuess(word, { ...CONFIG, wordLength: word.length })) {
+        setMessage("Not in word list");
+        return;
+      }
+      updateSettings({ ...settings, word });
+      setMessage(`Opener set to ${word.toUpperCase()}`);
+    },
+    [draft, settings, updateSettings],
+  );
+
+  const tryOpener = useCallback(
+    (event: FormEvent) => {
+      event.preventDefault();
+      if (!drillSolution) return;
+      const opener = normalizeGuess(drillGuess);
+      if (opener.length !== CONFIG.wordLength || !isValidGuess(opener, CONFIG)) {
+        setMessage(opener.length === CONFIG.wordLength ? "Not in word list" : "Not enough letters");
+        return;
+      }
+      const bestLeft = bestOpeners?.[0]
+        ? getOpenerResult(bestOpeners[0].word, drillSolution).left
+        : Number.NaN;
+      setAttempts((prev) => [
+        {
+          solution: drillSolution,
+          opener,
+          left: getOpenerResult(opener, drillSolution).left,
+          bestLeft,
+        },
+        ...prev,
+      ]);
+      setMessage(null);
+    },
+    [bestOpeners, drillGuess, drillSolution],
+  );
+
+  const nextDrillWord = useCallback(() => {
+    setDrillSolution(createRandomPuzzle(CONFIG).solution);
+    setDrillGuess(settings.word?.length === CONFIG.wordLength ? settings.word : "");
+  }, [settings.word]);
+
+  const openerStats = useMemo(() => getOpenerStats(history, CONFIG.wordLength), [history]);
+  const preferredExpected = useMemo(
+    () =>
+      settings.word?.length === CONFIG.wordLength
+        ? scoreGuess(settings.word, PRACTICE_WORDS).expectedRemaining
+        : null,
+    [settings.word],
+  );
+  const drillAverages = useMemo(() => {
+    const scored = attempts.filter((attempt) => !Number.isNaN(attempt.bestLeft));
+    const mean = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+    return scored.length === 0
+      ? null
+      : {
+          left: mean(scored.map((attempt) => attempt.left)),
+          bestLeft: mean(scored.map((attempt) => attempt.bestLeft)),
+        };
+  }, [attempts]);
+  const best = bestOpeners?.[0];
+
+  return (
+    <div className="flex w-full flex-col items-center gap-6">
+      <p
+        className="min-h-[1.5rem] text-xs uppercase tracking-[0.25em] text-zinc-400"
+        aria-live="polite"
+      >
+        {message}
+      </p>
+
+      <section className={sectionClassName} aria-labelledby="opener-heading">
+        <h3 id="opener-heading" className={headingClassName}>
+          Your opener
+        </h3>
+        <form onSubmit={saveOpener} className="flex flex-wrap items-center gap-3">
+          <input
+            value={draft}
+            onChange={(event) => setDraft(event.target.value.replace(/[^a-z]/gi, "").slice(0, 7))}
+            aria-label="Preferred opener"
+            placeholder="crane"
+            className={inputClassName}
+          />
+          <button type="submit" className={buttonClassName}>
+            Save
+          </button>
+          <label className="flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-500">
+            <input
+              type="checkbox"
+              checked={settings.autoFill}
+              disabled={!settings.word}
+              onChange={(event) => updateSettings({ ...settings, autoFill: event.target.checked })}
+              className="accent-emerald-500"
+            />
+            Auto-fill in games
+          </label>
+        </form>
+        {settings.word && preferredExpected !== null && best && (
+          <p className="text-xs text-zinc-500">
+            <span className="font-mono uppercase text-zinc-200">{settings.word}</span> leaves{" "}
+            <span className="text-zinc-200">{preferredExpected.toFixed(1)}</span> words on average;
+            the best opener, <span className="font-mono uppercase text-zinc-200">{best.word}</span>,
+            leaves <span className="text-zinc-200">{best.expectedRemaining.toFixed(1)}</span>.
+          </p>
+        )}
+        {settings.autoFill && settings.word && (
+          <p className="text-xs text-zinc-500">
+            {settings.word.toUpperCase()} is played for you at the start of every{" "}
+            {settings.word.length}-letter practice game.
+          </p>
+        )}
+      </section>
+
+      <section className={sectionClassName} aria-labelledby="drill-heading">
+        <h3 id="drill-heading" className={headingClassName}>
+          Opening drill
+        </h3>
+        <p className="text-xs text-zinc-500">
+          A hidden word, one guess: see how many answers your opener leaves standing.
+        </p>
+        <form onSubmit={tryOpener} className="flex flex-wrap items-center gap-3">
+          <input
+            value={drillGuess}
+            onChange={(event) =>
+              setDrillGuess(event.target.value.replace(/[^a-z]/gi, "").slice(0, CONFIG.wordLength))
+            }
+            aria-label="Opener to try"
+            disabled={!drillSolution || lastAttempt !== null}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={!drillSolution || lastAttempt !== null}
+            className={buttonClassName}
+          >
+            Try
+          </button>
+          <button type="button" onClick={nextDrillWord} className={buttonClassName}>
+            Next word
+          </button>
+        </form>
+        {lastAttempt && (
+          <div className="flex flex-col items-center gap-2">
+            <Board
+              board={[getOpenerResult(lastAttempt.opener, lastAttempt.solution).row]}
+              onActivate={() => undefined}
+              compact
+              label="Opener feedback"
+            />
+            <p className="text-xs text-zinc-400">
+              The word was{" "}
+              <span className="font-mono uppercase text-zinc-200">{lastAttempt.solution}</span>.{" "}
+              {lastAttempt.left} of {PRACTICE_WORDS.length} words left
+              {best && !Number.isNaN(lastAttempt.bestLeft) && (
+                <>
+                  ; <span className="font-mono uppercase">{best.word}</span> would have left{" "}
+                  {lastAttempt.bestLeft}
+                </>
+              )}
+              .
+            </p>
+          </div>
+        )}
+        {drillAverages && (
+          <p className="text-[0.65rem] uppercase tracking-[0.3em] text-zinc-500">
+            {attempts.length} tried · you left {drillAverages.left.toFixed(1)} · best left{" "}
+            {drillAverages.bestLeft.toFixed(1)}
+          </p>
+        )}
+      </section>
+
+      <section className={sectionClassName} aria-labelledby="report-heading">
+        <h3 id="report-heading" className={headingClassName}>
+          Your openers, from your {CONFIG.wordLength}-letter games
+        </h3>
+        {openerStats.length === 0 ? (
+          <p className="text-xs text-zinc-600">No games yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-[0.6rem] uppercase tracking-[0.25em] text-zinc-500">
+                <tr>
+                  <th className="py-1 pr-3 font-normal">Opener</th>
+                  <th className="py-1 pr-3 text-right font-normal">Games</th>
+                  <th className="py-1 pr-3 text-right font-normal">Left after 1</th>
+                  <th className="py-1 pr-3 text-right font-normal">Left after 2</th>
+                  <th className="py-1 pr-3 text-right font-normal">Expected</th>
+                  <th className="py-1 text-right font-normal">Avg guesses</th>
+                </tr>
+              </thead>
+              <tbody>
+                {openerStats.map((stats) => (
+                  <tr key={stats.opener} className="border-t border-zinc-900 text-zinc-400">
+                    <td className="py-1 pr-3 font-mono uppercase tracking-[0.2em] text-zinc-200">
+                      {stats.opener}
+                      {stats.opener === settings.word && (
+                        <span className="ml-1 text-emerald-400">*</span>
+                      )}
+                    </td>
+                    <td className="py-1 pr-3 text-right">{stats.games}</td>
+                    <td className="py-1 pr-3 text-right">
+                      {formatCount(stats.averageLeftAfterFirst)}
+                    </td>
+                    <td className="py-1 pr-3 text-right">
+                      {formatCount(stats.averageLeftAfterSecond)}
+                    </td>
+                    <td className="py-1 pr-3 text-right">{formatCount(stats.expectedLeft)}</td>
+                    <td className="py-1 text-right">{stats.averageGuesses?.toFixed(2) ?? "–"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <h3 className={`${headingClassName} mt-2`}>Best openers</h3>
+        {!bestOpeners ? (
+          <p className="text-xs text-zinc-600">Ranking openers…</p>
+        ) : (
+          <ol className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs sm:grid-cols-3">
+            {bestOpeners.map((suggestion, index) => (
+              <li key={suggestion.word} className="flex items-center justify-between gap-2">
+                <span className="w-4 text-zinc-600">{index + 1}</span>
+                <span className="flex-1 font-mono uppercase tracking-[0.2em] text-zinc-200">
+                  {suggestion.word}
+                </span>
+                <span className="text-zinc-500">
+                  {suggestion.entropy.toFixed(2)} bits · {suggestion.expectedRemaining.toFixed(1)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+        <p className="text-[0.65rem] text-zinc-600">
+          Every answer is bucketed by the colors an opener would show it. Bits measure how evenly
+          the {PRACTICE_WORDS.length} answers split; expected is how many share an answer&apos;s
+          bucket on average.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useState, type FormEvent } from "react";
+import {
+  DEFAULT_MAX_GUESSES,
+  MAX_GUESS_LIMIT,
+  MIN_GUESSES,
+  loadGuessDictionary,
+} from "../lib/word-bank";
+import {
+  MAX_CUSTOM_MESSAGE_LENGTH,
+  getCustomPuzzleError,
+  getCustomPuzzleUrl,
+} from "../lib/custom-puzzle";
+
+const GUESS_LIMIT_OPTIONS = Array.from(
+  { length: MAX_GUESS_LIMIT - MIN_GUESSES + 1 },
+  (_, index) => MIN_GUESSES + index,
+);
+
+const labelClassName =
+  "flex flex-col gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-400";
+const fieldClassName =
+  "rounded-md border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 outline-none transition hover:border-zinc-700 focus-visible:border-zinc-600";
+
+interface CreateResponse {
+  token?: string;
+  error?: string;
+}
+
+export function PuzzleCreator() {
+  const [word, setWord] = useState("");
+  const [maxGuesses, setMaxGuesses] = useState(DEFAULT_MAX_GUESSES);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [link, setLink] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const createPuzzle = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+      const puzzle = { word, maxGuesses, message };
+      setIsCreating(true);
+      setLink(null);
+      setCopied(false);
+      try {
+        // Check here first so a typo doesn't cost a round trip; the server checks again.
+        if (word.length > 0) await loadGuessDictionary(word.length).catch(() => undefined);
+        const localError = getCustomPuzzleError(puzzle);
+        if (localError) {
+          setError(localError);
+          return;
+        }
+        const response = await fetch("/api/custom", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(puzzle),
+        });
+        const payload = (await response.json()) as CreateResponse;
+        if (!response.ok || !payload.token) throw new Error(payload.error ?? "Request failed");
+        setError(null);
+        setLink(getCustomPuzzleUrl(payload.token, window.location.origin));
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : "Couldn't create the puzzle");
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [maxGuesses, message, word],
+  );
+
+  const copyLink = useCallback(async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      setError("Couldn't copy link");
+    }
+  }, [link]);
+
+  return (
+    <div className="flex w-full max-w-md flex-col gap-6">
+      <form
+        onSubmit={createPuzzle}
+        className="flex flex-col gap-5 rounded-lg border border-zinc-800 bg-zinc-950 px-5 py-5"
+      >
+        <label className={labelClassName}>
+          Word
+          <input
+            value={word}
+            onChange={(event) => {
+              setWord(
+                event.target.value
+                  .replace(/[^a-z]/gi, "")
+                  .slice(0, 7)
+                  .toLowerCase(),
+              );
+              setLink(null);
+            }}
+            autoComplete="off"
+            autoCapitalize="none"
+            spellCheck={false}
+            placeholder="4 to 7 letters"
+            className={`${fieldClassName} font-mono tracking-[0.3em]`}
+          />
+        </label>
+        <label className={labelClassName}>
+          Guesses
+          <select
+            value={maxGuesses}
+            onChange={(event) => setMaxGuesses(Number(event.target.value))}
+            className={fieldClassName}
+          >
+            {GUESS_LIMIT_OPTIONS.map((count) => (
+              <option key={`custom-guess-limit-${count}`} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClassName}>
+          <span className="flex justify-between">
+            Message
+            <span className="text-zinc-600">
+              {message.length}/{MAX_CUSTOM_MESSAGE_LENGTH}
+            </span>
+          </span>
+          <textarea
+            value={message}
+            onChange={(event) => setMessage(event.target.value)}
+            maxLength={MAX_CUSTOM_MESSAGE_LENGTH}
+            rows={3}
+            placeholder="Optional"
+            className={`${fieldClassName} resize-none normal-case tracking-normal`}
+          />
+        </label>
+        {error && (
+          <p className="text-xs text-rose-400" role="alert">
+            {error}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={isCreating || word.length === 0}
+          className="rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-zinc-800 disabled:text-zinc-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+        >
+          {isCreating ? "Creating…" : "Create link"}
+        </button>
+      </form>
+
+      {link && (
+        <div className="flex w-full items-center gap-2 rounded-lg border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-400">
+          <input
+            readOnly
+            value={link}
+            onFocus={(event) => event.target.select()}
+            aria-label="Link to your puzzle"
+            className="min-w-0 flex-1 bg-transparent font-mono text-zinc-200 outline-none"
+          />
+          <button
+            type="button"
+            onClick={copyLink}
+            className="shrink-0 rounded-md border border-zinc-800 px-2 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-400 transition hover:border-zinc-700 hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+          >
+            {copied ? "Copied" : "Copy"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,457 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  LetterEvaluation,
+  LetterState,
+  getEmptyBoard,
+  getKeyboardState,
+  isValidGuess,
+  normalizeGuess,
+} from "../lib/wordle";
+import { isGuessDictionaryLoaded, loadGuessDictionary } from "../lib/word-bank";
+import { readStorage, writeStorage } from "../lib/storage";
+import type { PublicRacePlayer, PublicRaceRoom } from "../lib/race";
+import { Board, Keyboard } from "./WordleGame";
+import { useAlert } from "./useAlert";
+
+const RACE_TOKEN_STORAGE_PREFIX = "wordle-practice/race/";
+const RACE_NAME_STORAGE_KEY = "wordle-practice/race-name";
+
+interface RaceGameProps {
+  initialRoomId?: string;
+}
+
+interface RaceResponse {
+  room?: PublicRaceRoom;
+  token?: string;
+  evaluation?: LetterEvaluation[];
+  error?: string;
+}
+
+async function postRace(path: string, body: unknown, token?: string): Promise<RaceResponse> {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { "x-race-token": token } : {}),
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+  const payload = (await response.json()) as RaceResponse;
+  if (!response.ok) throw new Error(payload.error ?? "Request failed");
+  return payload;
+}
+
+function setRoomInUrl(roomId: string | null) {
+  const url = new URL(window.location.href);
+  if (roomId) {
+    url.searchParams.set("room", roomId);
+  } else {
+    url.searchParams.delete("room");
+  }
+  window.history.replaceState(null, "", `${url.pathname}${url.search}`);
+}
+
+export function RaceGame({ initialRoomId }: RaceGameProps) {
+  const [roomId, setRoomId] = useState<string | null>(initialRoomId?.toUpperCase() ?? null);
+  const [token, setToken] = useState<string | null>(null);
+  const [room, setRoom] = useState<PublicRaceRoom | null>(null);
+  const [name, setName] = useState("");
+  const [currentGuess, setCurrentGuess] = useState("");
+  const { alert, showAlert } = useAlert();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setName(readStorage(window.localStorage, RACE_NAME_STORAGE_KEY) ?? "");
+  }, []);
+
+  useEffect(() => {
+    if (!roomId) return;
+    // A seat just taken is already in memory, and storage may not have kept it.
+    setToken(
+      (current) =>
+        current ?? readStorage(window.sessionStorage, `${RACE_TOKEN_STORAGE_PREFIX}${roomId}`),
+    );
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    const query = token ? `?token=${encodeURIComponent(token)}` : "";
+    const source = new EventSource(`/api/race/${roomId}/events${query}`);
+    source.onmessage = (event) => {
+      setRoom(JSON.parse(event.data) as PublicRaceRoom);
+    };
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        showAlert("Lost connection to the room");
+      }
+    };
+    return () => source.close();
+  }, [roomId, showAlert, token]);
+
+  const rememberSeat = useCallback(
+    (payload: RaceResponse) => {
+      if (!payload.room || !payload.token) return;
+      writeStorage(
+        window.sessionStorage,
+        `${RACE_TOKEN_STORAGE_PREFIX}${payload.room.id}`,
+        payload.token,
+      );
+      writeStorage(window.localStorage, RACE_NAME_STORAGE_KEY, name.trim());
+      setRoomInUrl(payload.room.id);
+      setRoomId(payload.room.id);
+      setToken(payload.token);
+      setRoom(payload.room);
+    },
+    [name],
+  );
+
+  const createRoom = useCallback(async () => {
+    try {
+      rememberSeat(await postRace("/api/race", { name }));
+      setCurrentGuess("");
+    } catch (error) {
+      showAlert(error instanceof Error ? error.message : "Couldn't create a room");
+    }
+  }, [name, rememberSeat, showAlert]);
+
+  const joinRoom = useCallback(async () => {
+    if (!roomId) return;
+    try {
+      rememberSeat(await postRace(`/api/race/${roomId}/join`, { name }));
+    } catch (error) {
+      showAlert(error instanceof Error ? error.message : "Couldn't join the room");
+    }
+  }, [name, rememberSeat, roomId, showAlert]);
+
+  const startRace = useCallback(async () => {
+    if (!roomId || !token) return;
+    try {
+      const payload = await postRace(`/api/race/${roomId}/start`, {}, token);
+      if (payload.room) setRoom(payload.room);
+    } catch (error) {
+      showAlert(error instanceof Error ? error.message : "Couldn't start the race");
+    }
+  }, [roomId, showAlert, token]);
+
+  const viewer = room?.players.find((player) => player.id === room.viewerId);
+  const canType = room?.status === "playing" && viewer?.result === "playing" && !isSubmitting;
+  const config = room?.config;
+  const wordLength = config?.wordLength;
+
+  useEffect(() => {
+    if (wordLength) loadGuessDictionary(wordLength).catch(() => undefined);
+  }, [wordLength]);
+
+  const commitGuess = useCallback(async () => {
+    if (!canType || !config || !roomId || !token) return;
+    if (currentGuess.length !== config.wordLength) {
+      showAlert("Not enough letters");
+      return;
+    }
+    const normalized = normalizeGuess(currentGuess);
+    // Until the dictionary arrives, leave the word-list check to the server.
+    if (isGuessDictionaryLoaded(config.wordLength) && !isValidGuess(normalized, config)) {
+      showAlert("Not in word list");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const payload = await postRace(`/api/race/${roomId}/guess`, { guess: normalized }, token);
+      if (payload.room) setRoom(payload.room);
+      setCurrentGuess("");
+    } catch (error) {
+      showAlert(error instanceof Error ? error.message : "Guess failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [canType, config, currentGuess, roomId, showAlert, token]);
+
+  const handleLetter = useCallback(
+    (letter: string) => {
+      if (!canType || !config) return;
+      setCurrentGuess((prev) => (prev.length >= config.wordLength ? prev : `${prev}${letter}`));
+    },
+    [canType, config],
+  );
+
+  const handleBackspace = useCallback(() => {
+    if (!canType) return;
+    setCurrentGuess((prev) => prev.slice(0, -1));
+  }, [canType]);
+
+  useEffect(() => {
+    const handleKey = (event: globalThis.KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.key === "Enter") {
+        event.preventDefault();
+        void commitGuess();
+      } else if (event.key === "Backspace") {
+        event.preventDefault();
+        handleBackspace();
+      } else if (/^[a-zA-Z]$/.test(event.key)) {
+        event.preventDefault();
+        handleLetter(event.key.toLowerCase());
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [commitGuess, handleBackspace, handleLetter]);
+
+  const board = useMemo(() => {
+    if (!room) return [];
+    const rows = getEmptyBoard(room.config);
+    room.viewerRows.forEach((row, index) => {
+      rows[index] = row;
+    });
+    const activeRow = room.viewerRows.length;
+    if (activeRow < rows.length) {
+      rows[activeRow] = rows[activeRow].map((cell, index) => ({
+        letter: currentGuess[index] ?? "",
+        state: cell.state,
+      }));
+    }
+    return rows;
+  }, [currentGuess, room]);
+
+  const keyboard = useMemo(() => getKeyboardState(room?.viewerRows ?? []), [room]);
+  const opponents = room?.players.filter((player) => player.id !== room.viewerId) ?? [];
+
+  const alertBanner = (
+    <div className="flex h-10 w-full max-w-[min(100%,320px)] items-center justify-center sm:max-w-sm">
+      <div
+        className={`min-h-[2rem] rounded bg-zinc-900/80 px-3 py-1 text-xs font-medium uppercase tracking-[0.25em] text-zinc-200 shadow transition-opacity ${
+          alert ? "opacity-100" : "opacity-0"
+        }`}
+        aria-live="polite"
+        aria-atomic="true"
+      >
+        {alert}
+      </div>
+    </div>
+  );
+
+  if (!room || !viewer) {
+    // Seats close once the race starts; latecomers can only start a race of their own.
+    const canJoin = roomId !== null && (!room || room.status === "waiting");
+    return (
+      <div className="flex w-full max-w-sm flex-col items-center gap-4">
+        {alertBanner}
+        <RaceLobby
+          name={name}
+          onNameChange={setName}
+          roomId={roomId}
+          playerCount={room?.players.length ?? 0}
+          onCreate={createRoom}
+          onJoin={canJoin ? joinRoom : undefined}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex w-full max-w-3xl flex-col items-center gap-5 sm:gap-6">
+      {alertBanner}
+
+      <RaceStatusBar room={room} viewerId={viewer.id} onStart={startRace} onNewRace={createRoom} />
+
+      <div className="flex w-full flex-col items-center gap-6 sm:flex-row sm:items-start sm:justify-center">
+        <Board board={board} onActivate={() => undefined} />
+        {opponents.length > 0 && (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-1">
+            {opponents.map((player) => (
+              <OpponentBoard
+                key={player.id}
+                player={player}
+                maxGuesses={room.config.maxGuesses}
+                wordLength={room.config.wordLength}
+                isWinner={player.id === room.winnerId}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Keyboard
+        keyboardState={keyboard}
+        onEnter={() => void commitGuess()}
+        onBackspace={handleBackspace}
+        onLetter={handleLetter}
+      />
+    </div>
+  );
+}
+
+interface RaceLobbyProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  roomId: string | null;
+  playerCount: number;
+  onCreate: () => void;
+  onJoin?: () => void;
+}
+
+function RaceLobby({ name, onNameChange, roomId, playerCount, onCreate, onJoin }: RaceLobbyProps) {
+  const buttonClassName =
+    "w-full rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-950 transition hover:bg-emerald-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500 disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <form
+      className="flex w-full flex-col gap-3 rounded-lg border border-zinc-800 bg-zinc-950 p-5"
+      onSubmit={(event) => {
+        event.preventDefault();
+        (onJoin ?? onCreate)();
+      }}
+    >
+      <h2 className="text-center text-sm font-semibold uppercase tracking-[0.35em] text-zinc-300">
+        {!roomId
+          ? "Start a race"
+          : onJoin
+            ? `Join room ${roomId}`
+            : `Room ${roomId} already started`}
+      </h2>
+      {roomId && onJoin && (
+        <p className="text-center text-xs text-zinc-500">
+          {playerCount} {playerCount === 1 ? "player" : "players"} waiting
+        </p>
+      )}
+      <label className="flex flex-col gap-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-500">
+        Your name
+        <input
+          value={name}
+          onChange={(event) => onNameChange(event.target.value)}
+          maxLength={20}
+          autoComplete="nickname"
+          className="rounded-md border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm normal-case tracking-normal text-zinc-100 outline-none focus:border-zinc-600"
+        />
+      </label>
+      <button type="submit" disabled={!name.trim()} className={buttonClassName}>
+        {onJoin ? "Join race" : "Create room"}
+      </button>
+    </form>
+  );
+}
+
+interface RaceStatusBarProps {
+  room: PublicRaceRoom;
+  viewerId: string;
+  onStart: () => void;
+  onNewRace: () => void;
+}
+
+function RaceStatusBar({ room, viewerId, onStart, onNewRace }: RaceStatusBarProps) {
+  const [inviteUrl, setInviteUrl] = useState("");
+  const winner = room.players.find((player) => player.id === room.winnerId);
+  const viewer = room.players.find((player) => player.id === viewerId);
+
+  useEffect(() => {
+    setInviteUrl(`${window.location.origin}/race?room=${room.id}`);
+  }, [room.id]);
+
+  const buttonClassName =
+    "rounded-md bg-emerald-500 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-emerald-950 transition hover:bg-emerald-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500";
+
+  return (
+    <div className="flex w-full max-w-md flex-col items-center gap-3 rounded-lg border border-zinc-800 bg-zinc-950 px-4 py-3 text-center text-xs text-zinc-400">
+      <div className="text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+        Room <span className="font-mono text-zinc-200">{room.id}</span> ·{" "}
+        {room.players.map((player) => player.name).join(", ")}
+      </div>
+
+      {room.status === "waiting" && (
+        <>
+          <input
+            readOnly
+            value={inviteUrl}
+            onFocus={(event) => event.target.select()}
+            aria-label="Invite link"
+            className="w-full bg-transparent text-center font-mono text-zinc-200 outline-none"
+          />
+          {room.hostId === viewerId ? (
+            <button type="button" onClick={onStart} className={buttonClassName}>
+              Start race
+            </button>
+          ) : (
+            <span className="uppercase tracking-[0.3em]">Waiting for the host to start</span>
+          )}
+        </>
+      )}
+
+      {room.status === "playing" && (
+        <span className="uppercase tracking-[0.3em] text-zinc-300">
+          {viewer?.result === "out"
+            ? "You dropped out of this race"
+            : "Race on — first to solve wins"}
+        </span>
+      )}
+
+      {room.status === "finished" && (
+        <>
+          <span className="uppercase tracking-[0.3em] text-zinc-200">
+            {winner
+              ? winner.id === viewerId
+                ? "You won!"
+                : `${winner.name} won`
+              : "Nobody solved it"}
+            {room.solution ? ` · ${room.solution.toUpperCase()}` : ""}
+          </span>
+          <button type="button" onClick={onNewRace} className={buttonClassName}>
+            New race
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+const OPPONENT_TILE_CLASSES: Record<LetterState, string> = {
+  correct: "bg-emerald-600 high-contrast:bg-orange-500",
+  present: "bg-amber-500 high-contrast:bg-sky-500",
+  absent: "bg-zinc-700",
+  empty: "border border-zinc-800 bg-zinc-950",
+};
+
+interface OpponentBoardProps {
+  player: PublicRacePlayer;
+  maxGuesses: number;
+  wordLength: number;
+  isWinner: boolean;
+}
+
+function OpponentBoard({ player, maxGuesses, wordLength, isWinner }: OpponentBoardProps) {
+  const rows = Array.from(
+    { length: maxGuesses },
+    (_, rowIndex) =>
+      player.rows[rowIndex] ?? Array.from({ length: wordLength }, () => "empty" as LetterState),
+  );
+
+  return (
+    <figure className="flex flex-col items-center gap-1.5">
+      <div className="flex flex-col gap-1" aria-label={`${player.name}'s board`}>
+        {rows.map((row, rowIndex) => (
+          <div key={`${player.id}-row-${rowIndex}`} className="flex gap-1">
+            {row.map((state, cellIndex) => (
+              <span
+                key={`${player.id}-tile-${rowIndex}-${cellIndex}`}
+                className={`h-3.5 w-3.5 rounded-sm ${OPPONENT_TILE_CLASSES[state]}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <figcaption
+        className={`text-[0.65rem] uppercase tracking-[0.3em] ${
+          isWinner
+            ? "text-emerald-400"
+            : player.result === "lost" || player.result === "out"
+              ? "text-zinc-600"
+              : "text-zinc-400"
+        }`}
+      >
+        {player.result === "out" ? `${player.name} · out` : player.name}
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,311 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WordleGame, openStatsModal } from "./WordleGame";
+import { createRandomPuzzle } from "../lib/puzzle";
+import { STATS_STORAGE_KEY, loadStatsStore } from "../lib/stats";
+import { ACTIVE_GAME_STORAGE_KEY, CUSTOM_ACTIVE_GAME_STORAGE_KEY } from "../lib/active-game";
+import { OPENER_STORAGE_KEY } from "../lib/openers";
+import { THEME_STORAGE_KEY } from "../lib/theme";
+import { loadGuessDictionary } from "../lib/word-bank";
+
+// A constant source always lands on the same word, however many times the game draws.
+const random = () => 0;
+const solution = createRandomPuzzle(undefined, random).solution;
+const WRONG_GUESSES = ["crane", "slate", "abide", "hello", "sadly", "pious"].filter(
+  (word) => word !== solution,
+);
+
+const KEY_COLORS = { correct: "bg-emerald-500", present: "bg-amber-400", absent: "bg-zinc-800" };
+
+function renderGame() {
+  return render(<WordleGame random={random} />);
+}
+
+function getRow(index: number) {
+  return within(screen.getByRole("grid", { name: "Word grid" })).getAllByRole("row")[index];
+}
+
+function getRowLabels(index: number) {
+  return within(getRow(index))
+    .getAllByRole("gridcell")
+    .map((cell) => cell.getAttribute("aria-label"));
+}
+
+beforeEach(() => {
+  window.localStorage.clear();
+  vi.stubGlobal(
+    "matchMedia",
+    vi.fn(() => ({
+      matches: false,
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    })),
+  );
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("WordleGame", () => {
+  it("types, deletes and submits guesses from the physical keyboard", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    await user.keyboard("cranx{Backspace}e");
+    expect(getRowLabels(0)).toEqual([
+      "C pending",
+      "R pending",
+      "A pending",
+      "N pending",
+      "E pending",
+    ]);
+
+    await user.keyboard("{Enter}");
+    expect(getRowLabels(0).every((label) => !label?.endsWith("pending"))).toBe(true);
+    expect(getRowLabels(1)).toEqual(Array(5).fill("Empty"));
+  });
+
+  it("plays from the on-screen keyboard and colors and names its keys", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    for (const letter of WRONG_GUESSES[0]) {
+      await user.click(screen.getByRole("button", { name: letter.toUpperCase() }));
+    }
+    await user.click(screen.getByRole("button", { name: "enter" }));
+
+    const [firstLabel] = getRowLabels(0);
+    const firstState = firstLabel?.split(" ")[1];
+    const firstKey = screen.getByRole("button", { name: firstLabel! });
+    expect(firstKey.className).toContain(KEY_COLORS[firstState as keyof typeof KEY_COLORS]);
+  });
+
+  it("sanitizes the hidden input and submits with Enter", () => {
+    renderGame();
+    const input = screen.getByLabelText("Type your Wordle guess");
+
+    fireEvent.change(input, { target: { value: `${solution.toUpperCase()}!9xyz` } });
+    expect(input).toHaveProperty("value", solution);
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(getRowLabels(0)).toEqual(
+      solution.split("").map((letter) => `${letter.toUpperCase()} correct`),
+    );
+  });
+
+  it("rejects short guesses and words outside the list", async () => {
+    const user = userEvent.setup();
+    await loadGuessDictionary(5);
+    renderGame();
+
+    await user.keyboard("cra{Enter}");
+    expect(screen.getByText("Not enough letters")).toBeTruthy();
+
+    await user.keyboard("zz{Enter}");
+    expect(screen.getByText("Not in word list")).toBeTruthy();
+    expect(getRowLabels(0)[0]).toBe("C pending");
+  });
+
+  it("wins on the injected solution and records it", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    await user.keyboard(`${WRONG_GUESSES[0]}{Enter}${solution}{Enter}`);
+
+    expect(screen.getByText("Splendid!")).toBeTruthy();
+    expect(screen.getByRole("button", { name: "New Game" })).toBeTruthy();
+    const [entry] = loadStatsStore(window.localStorage).history;
+    expect(entry).toMatchObject({ solution, result: "won", guesses: [WRONG_GUESSES[0], solution] });
+    expect(window.localStorage.getItem(ACTIVE_GAME_STORAGE_KEY)).toBeNull();
+
+    // A finished game ignores further typing.
+    await user.keyboard("abc");
+    expect(getRowLabels(2)).toEqual(Array(5).fill("Empty"));
+  });
+
+  it("reveals the solution after the last wrong guess", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    for (const guess of WRONG_GUESSES.slice(0, 6)) {
+      await user.keyboard(`${guess}{Enter}`);
+    }
+
+    expect(screen.getByText(solution.toUpperCase())).toBeTruthy();
+    const [entry] = loadStatsStore(window.localStorage).history;
+    expect(entry).toMatchObject({ solution, result: "lost" });
+    expect(entry.guesses).toHaveLength(6);
+  });
+
+  it("resumes an unfinished game after a remount", async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderGame();
+
+    await user.keyboard(`${WRONG_GUESSES[0]}{Enter}`);
+    expect(window.localStorage.getItem(ACTIVE_GAME_STORAGE_KEY)).toContain(solution);
+    unmount();
+
+    renderGame();
+    expect(getRowLabels(0)[0]).toMatch(new RegExp(`^${WRONG_GUESSES[0][0].toUpperCase()} `));
+    expect(getRowLabels(1)).toEqual(Array(5).fill("Empty"));
+    expect(screen.queryByText(/^Row 1: /)).toBeNull();
+  });
+
+  it("shows persisted stats in the modal and closes it with Escape", async () => {
+    const user = userEvent.setup();
+    const { unmount } = renderGame();
+    await user.keyboard(`${solution}{Enter}`);
+    expect(window.localStorage.getItem(STATS_STORAGE_KEY)).toContain(solution);
+    unmount();
+
+    renderGame();
+    act(() => openStatsModal());
+
+    const heading = screen.getByRole("heading", { name: "Stats" });
+    const modal = heading.parentElement!;
+    expect(within(modal).getByText("Played").previousElementSibling?.textContent).toBe("1");
+    expect(within(modal).getByText("Win %").previousElementSibling?.textContent).toBe("100");
+    expect(within(modal).getByRole("button", { name: new RegExp(solution, "i") })).toBeTruthy();
+
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("heading", { name: "Stats" })).toBeNull();
+  });
+
+  it("plays the saved opener for you when auto-fill is on", async () => {
+    window.localStorage.setItem(
+      OPENER_STORAGE_KEY,
+      JSON.stringify({ word: WRONG_GUESSES[0], autoFill: true }),
+    );
+    renderGame();
+
+    await vi.waitFor(() =>
+      expect(getRowLabels(0)[0]).toMatch(new RegExp(`^${WRONG_GUESSES[0][0].toUpperCase()} `)),
+    );
+    expect(getRowLabels(0).some((label) => label?.endsWith("pending"))).toBe(false);
+    expect(getRowLabels(1)).toEqual(Array(5).fill("Empty"));
+  });
+
+  it("leaves the daily word's first guess to the player", async () => {
+    window.localStorage.setItem(
+      OPENER_STORAGE_KEY,
+      JSON.stringify({ word: WRONG_GUESSES[0], autoFill: true }),
+    );
+    render(<WordleGame mode="daily" />);
+
+    await act(() => loadGuessDictionary(5));
+    expect(getRowLabels(0)).toEqual(Array(5).fill("Empty"));
+  });
+
+  it("plays a friend's puzzle without touching stats", async () => {
+    const user = userEvent.setup();
+    render(<WordleGame mode="custom" custom={{ word: "pious", maxGuesses: 4, message: null }} />);
+    expect(getRowLabels(3)).toEqual(Array(5).fill("Empty"));
+    expect(screen.getAllByRole("row")).toHaveLength(4);
+
+    await user.keyboard("crane{Enter}");
+    expect(window.localStorage.getItem(CUSTOM_ACTIVE_GAME_STORAGE_KEY)).toContain("pious");
+    await user.keyboard("pious{Enter}");
+
+    expect(screen.getByRole("link", { name: "Send one back" })).toBeTruthy();
+    expect(screen.queryByRole("button", { name: "New Game" })).toBeNull();
+    expect(loadStatsStore(window.localStorage).history).toEqual([]);
+    expect(window.localStorage.getItem(CUSTOM_ACTIVE_GAME_STORAGE_KEY)).toBeNull();
+  });
+
+  it("announces each guess and moves around the grid with the arrow keys", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    await user.keyboard(`${WRONG_GUESSES[0]}{Enter}`);
+    expect(screen.getByText(/^Row 1: /).textContent).toBe(`Row 1: ${getRowLabels(0).join(", ")}`);
+
+    // Only one tile is in the tab order.
+    const tiles = within(getRow(0)).getAllByRole("gridcell");
+    expect(tiles.map((tile) => tile.tabIndex)).toEqual([0, -1, -1, -1, -1]);
+    act(() => tiles[0].focus());
+    await user.keyboard("{ArrowRight}{ArrowRight}{ArrowDown}");
+    expect(document.activeElement).toBe(within(getRow(1)).getAllByRole("gridcell")[2]);
+    await user.keyboard("{Control>}{End}{/Control}");
+    expect(document.activeElement).toBe(within(getRow(5)).getAllByRole("gridcell")[4]);
+  });
+
+  it("keeps focus inside the modal and hands it back on close", async () => {
+    const user = userEvent.setup();
+    render(
+      <>
+        <button type="button" onClick={openStatsModal}>
+          Stats
+        </button>
+        <WordleGame random={random} />
+      </>,
+    );
+
+    await user.click(screen.getByRole("button", { name: "Stats" }));
+    const dialog = screen.getByRole("dialog", { name: "Stats" });
+    expect(document.activeElement).toBe(dialog);
+
+    const close = within(dialog).getByRole("button", { name: "Close" });
+    await user.tab();
+    expect(document.activeElement).toBe(close);
+    await user.tab({ shift: true });
+    await user.tab({ shift: true });
+    expect(dialog.contains(document.activeElement)).toBe(true);
+
+    // Enter presses the focused button rather than reaching the game.
+    act(() => close.focus());
+    await user.keyboard("{Enter}");
+
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(document.activeElement).toBe(screen.getByRole("button", { name: "Stats" }));
+    expect(getRowLabels(0)).toEqual(Array(5).fill("Empty"));
+  });
+
+  it("switches tiles and keys to the high-contrast colors", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    await user.click(screen.getByRole("switch", { name: "High contrast" }));
+    expect(document.documentElement.dataset.theme).toBe("high-contrast");
+    expect(window.localStorage.getItem(THEME_STORAGE_KEY)).toBe("high-contrast");
+
+    await user.keyboard(`${solution}{Enter}`);
+    expect(within(getRow(0)).getAllByRole("gridcell")[0].className).toContain(
+      "high-contrast:bg-orange-500",
+    );
+
+    await user.click(screen.getByRole("switch", { name: "High contrast" }));
+    expect(document.documentElement.dataset.theme).toBeUndefined();
+  });
+
+  it("keeps working when storage refuses writes", async () => {
+    const user = userEvent.setup();
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    renderGame();
+
+    await user.click(screen.getByRole("switch", { name: "Hard mode" }));
+    expect(screen.getByRole("switch", { name: "Hard mode" }).getAttribute("aria-checked")).toBe(
+      "true",
+    );
+    await user.keyboard(`${solution}{Enter}`);
+    expect(screen.getByText("Splendid!")).toBeTruthy();
+  });
+
+  it("closes the modal from its Close button and returns to the board", async () => {
+    const user = userEvent.setup();
+    renderGame();
+
+    act(() => openStatsModal());
+    await user.click(screen.getByRole("button", { name: "Close" }));
+    expect(screen.queryByRole("heading", { name: "Stats" })).toBeNull();
+
+    await user.keyboard("c");
+    expect(getRowLabels(0)[0]).toBe("C pending");
+  });
+});
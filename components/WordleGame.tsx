@@ -3,6 +3,7 @@
 import {
   useCallback,
   useEffect,
+  useId,
   useMemo,
   useRef,
   useState,
@@ -11,22 +12,109 @@ import {
   type KeyboardEvent as ReactKeyboardEvent,
 } from "react";
 import {
+  DEFAULT_GAME_CONFIG,
+  GameConfig,
+  KeyboardState,
   LetterEvaluation,
   LetterState,
+  describeRow,
   evaluateGuess,
   getEmptyBoard,
-  getRandomSolution,
-  isValidGuess,
-  normalizeGuess,
+  getVariantKey,
+  isCommittedRow,
+  normalizeGameConfig,
 } from "../lib/wordle";
-import { MAX_GUESSES, WORD_LENGTH } from "../lib/word-bank";
-
-type GameStatus = "playing" | "won" | "lost";
-
-type KeyboardState = Record<string, LetterState | undefined>;
+import {
+  MAX_GUESS_LIMIT,
+  MIN_GUESSES,
+  SUPPORTED_WORD_LENGTHS,
+  loadGuessDictionary,
+} from "../lib/word-bank";
+import { HintResult, getHint } from "../lib/solver";
+import {
+  GameAction,
+  GameState,
+  HIDDEN_PUZZLE,
+  NextGame,
+  RunProgress,
+  advanceRun,
+  createFinishedEntry,
+  createGameState,
+  getGameBoard,
+  getGameKeyboard,
+  getGameOverMessage,
+  getNextGame,
+  getPracticeSelection,
+  getSessionSync,
+  planGuess,
+  recordFinishedGame,
+  reduceGame,
+  replayFinishedGame,
+  resumeActiveGame,
+  toActiveGame,
+} from "../lib/game-engine";
+import {
+  ACTIVE_GAME_STORAGE_KEY,
+  CUSTOM_ACTIVE_GAME_STORAGE_KEY,
+  DAILY_ACTIVE_GAME_STORAGE_KEY,
+  DAILY_SERVER_GAME_STORAGE_KEY,
+  REVIEW_ACTIVE_GAME_STORAGE_KEY,
+  REVIEW_SERVER_GAME_STORAGE_KEY,
+  SERVER_GAME_STORAGE_KEY,
+  clearActiveGame,
+  loadActiveGame,
+  saveActiveGame,
+} from "../lib/active-game";
+import { SelectionOptions, WORD_FILTERS, WordFilter, isWordFilter } from "../lib/selection";
+import { REVIEW_MIX_RATES, getDueWords, getNextDueAt } from "../lib/review";
+import type { SplitKeyboardState } from "../lib/multi-board";
+import {
+  GameClock,
+  IDLE_CLOCK,
+  TIMER_SETTINGS,
+  TimedRun,
+  TimerSetting,
+  formatDuration,
+  getElapsedMs,
+  getTimerSetting,
+  pauseClock,
+  resumeClock,
+} from "../lib/timer";
+import { getDailyKey, getDailyPuzzle } from "../lib/daily";
+import { SharePalette, buildShareText } from "../lib/share";
+import { Theme, applyTheme, loadTheme, saveTheme } from "../lib/theme";
+import { writeStorage } from "../lib/storage";
+import { DailyCountdown } from "./DailyCountdown";
+import { Puzzle, RandomSource, createRandomPuzzle, getPuzzle, getPuzzleUrl } from "../lib/puzzle";
+import { GuessAnalysis, analyzeGame } from "../lib/analysis";
+import { CustomPuzzle, getCustomGameConfig } from "../lib/custom-puzzle";
+import {
+  GameHistoryEntry,
+  GameStats,
+  StatsStore,
+  createEmptyStatsStore,
+  getAverageGuesses,
+  getBestRuns,
+  getDailyStats,
+  getFastestSolves,
+  getVariantStats,
+  loadStatsStore,
+  saveStatsStore,
+  setReviewMixRate,
+} from "../lib/stats";
+import Link from "next/link";
+import { AnalysisPanel } from "./AnalysisPanel";
+import { HintPanel } from "./HintPanel";
+import { useAlert } from "./useAlert";
+import { useOpenerAutoFill } from "./useOpenerAutoFill";
+import { useServerGame } from "./useServerGame";
 
 const KEYBOARD_ROWS = ["QWERTYUIOP", "ASDFGHJKL", "ZXCVBNM"];
-const STATS_STORAGE_KEY = "wordle-practice/stats";
+const HARD_MODE_STORAGE_KEY = "wordle-practice/hard-mode";
+const CONFIG_STORAGE_KEY = "wordle-practice/config";
+const SHARE_PALETTE_STORAGE_KEY = "wordle-practice/share-palette";
+const WORD_FILTER_STORAGE_KEY = "wordle-practice/word-filter";
+const TIMER_STORAGE_KEY = "wordle-practice/timer";
 
 export function openStatsModal() {
   if (typeof window === "undefined") return;
@@ -38,41 +126,162 @@ export function closeStatsModal() {
   window.dispatchEvent(new Event("wordle:stats-close"));
 }
 
-interface GameStats {
-  totalPlayed: number;
-  totalWon: number;
-  currentStreak: number;
-  maxStreak: number;
+export type PlayMode = "practice" | "daily" | "review" | "custom";
+
+/** Local games evaluate in the browser; server games keep the solution behind `/api/game`. */
+export type GameEngine = "local" | "server";
+
+const ACTIVE_GAME_KEYS: Record<GameEngine, Record<PlayMode, string>> = {
+  local: {
+    practice: ACTIVE_GAME_STORAGE_KEY,
+    daily: DAILY_ACTIVE_GAME_STORAGE_KEY,
+    review: REVIEW_ACTIVE_GAME_STORAGE_KEY,
+    custom: CUSTOM_ACTIVE_GAME_STORAGE_KEY,
+  },
+  server: {
+    practice: SERVER_GAME_STORAGE_KEY,
+    daily: DAILY_SERVER_GAME_STORAGE_KEY,
+    review: REVIEW_SERVER_GAME_STORAGE_KEY,
+    // Custom words aren't in the server's puzzle list, so custom games always run locally.
+    custom: CUSTOM_ACTIVE_GAME_STORAGE_KEY,
+  },
+};
+
+interface WordleGameProps {
+  /**
+   * Practice serves unlimited words; daily serves one shared word per calendar day; review
+   * serves only the words from the review queue that are due; custom plays `custom` and
+   * leaves the stats alone.
+   */
+  mode?: PlayMode;
+  engine?: GameEngine;
+  /** The word a custom puzzle link decoded to, for `mode="custom"`. */
+  custom?: CustomPuzzle;
+  /** Puzzle ID from a shared link; takes precedence over a fresh random word. */
+  initialPuzzleId?: string;
+  /** Picks local practice words; tests pass a fixed source so the solution is known. */
+  random?: RandomSource;
 }
 
-const DEFAULT_STATS: GameStats = {
-  totalPlayed: 0,
-  totalWon: 0,
-  currentStreak: 0,
-  maxStreak: 0,
-};
+function clearPuzzleFromUrl() {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has("puzzle")) return;
+  url.searchParams.delete("puzzle");
+  window.history.replaceState(null, "", `${url.pathname}${url.search}${url.hash}`);
+}
+
+function loadStoredConfig(): GameConfig {
+  try {
+    const stored = window.localStorage.getItem(CONFIG_STORAGE_KEY);
+    return normalizeGameConfig(
+      stored ? (JSON.parse(stored) as Partial<GameConfig>) : DEFAULT_GAME_CONFIG,
+    );
+  } catch {
+    // Fall back to the default variant when the stored config is unreadable.
+    return DEFAULT_GAME_CONFIG;
+  }
+}
 
-export function WordleGame() {
+function loadStoredWordFilter(): WordFilter {
+  try {
+    const stored = window.localStorage.getItem(WORD_FILTER_STORAGE_KEY);
+    return isWordFilter(stored) ? stored : "any";
+  } catch {
+    return "any";
+  }
+}
+
+/** The saved word filter, recent solutions and due reviews, for picking before state has loaded. */
+function loadStoredSelection(wordLength: number): SelectionOptions {
+  try {
+    return getPracticeSelection(
+      loadStatsStore(window.localStorage),
+      wordLength,
+      loadStoredWordFilter(),
+    );
+  } catch {
+    return { filter: loadStoredWordFilter() };
+  }
+}
+
+export function WordleGame({
+  mode = "practice",
+  engine = "local",
+  initialPuzzleId,
+  custom,
+  random = Math.random,
+}: WordleGameProps) {
+  const isDaily = mode === "daily";
+  const isReview = mode === "review";
+  const isCustom = mode === "custom";
+  // Daily and custom games are a single word; the other modes move on to another.
+  const isSingleWord = isDaily || isCustom;
+  const isServer = engine === "server" && !isCustom;
+  const activeGameKey = ACTIVE_GAME_KEYS[engine][mode];
+  const [dailyKey] = useState(() => getDailyKey());
   const hiddenInputRef = useRef<HTMLInputElement | null>(null);
-  const [board, setBoard] = useState<LetterEvaluation[][]>(() => getEmptyBoard());
-  const [currentRow, setCurrentRow] = useState(0);
-  const [currentGuess, setCurrentGuess] = useState("");
-  const [solution, setSolution] = useState(() => getRandomSolution());
-  const [status, setStatus] = useState<GameStatus>("playing");
-  const [alert, setAlert] = useState<string | null>(null);
-  const [keyboard, setKeyboard] = useState<KeyboardState>({});
-  const [stats, setStats] = useState<GameStats>(DEFAULT_STATS);
+  const [game, setGame] = useState<GameState>(() =>
+    isCustom && custom
+      ? createGameState({ id: "", solution: custom.word }, getCustomGameConfig(custom))
+      : createGameState(
+          isServer || isReview
+            ? HIDDEN_PUZZLE
+            : isDaily
+              ? getDailyPuzzle()
+              : createRandomPuzzle(DEFAULT_GAME_CONFIG, random),
+        ),
+  );
+  const { config, puzzle, hardMode, currentGuess, status } = game;
+  const currentRow = game.rows.length;
+  const solution = puzzle.solution;
+  const [isReviewEmpty, setIsReviewEmpty] = useState(false);
+  // The word that just finished, which stats state may not reflect yet when the next game starts.
+  const lastSolutionRef = useRef<string | null>(null);
+  const { alert, showAlert, clearAlert } = useAlert();
+  const [statsStore, setStatsStore] = useState<StatsStore>(() => createEmptyStatsStore());
   const [statsLoaded, setStatsLoaded] = useState(false);
   const [isInputFocused, setIsInputFocused] = useState(false);
   const [isTouchDevice, setIsTouchDevice] = useState(false);
   const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [hint, setHint] = useState<HintResult | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  const [analysis, setAnalysis] = useState<GuessAnalysis[] | null>(null);
+  const [isAnalysisLoading, setIsAnalysisLoading] = useState(false);
+  const [sharePalette, setSharePalette] = useState<SharePalette>("standard");
+  const [theme, setTheme] = useState<Theme>("standard");
+  const [wordFilter, setWordFilter] = useState<WordFilter>("any");
+  const [timerSetting, setTimerSetting] = useState<TimerSetting>(TIMER_SETTINGS[0]);
+  // Set once the saved or shared game has replaced the placeholder the first render starts with.
+  const [isRestored, setIsRestored] = useState(false);
+  // Only practice is timed; daily and review games still record how long they took.
+  const timer = mode === "practice" ? timerSetting : TIMER_SETTINGS[0];
+  const [clock, setClock] = useState<GameClock>(IDLE_CLOCK);
+  // The clock waits for the first keystroke, so reading the board before typing is free.
+  const [isClockStarted, setIsClockStarted] = useState(false);
+  const [guessTimes, setGuessTimes] = useState<number[]>([]);
+  const [run, setRun] = useState<RunProgress | null>(null);
+  const [isPageHidden, setIsPageHidden] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const [, startTransition] = useTransition();
 
-  const setGuessValue = useCallback((value: string) => {
-    const sanitized = value.replace(/[^a-z]/gi, "").slice(0, WORD_LENGTH).toLowerCase();
-    setCurrentGuess(sanitized);
+  const dispatch = useCallback((action: GameAction) => {
+    setGame((prev) => reduceGame(prev, action));
   }, []);
 
+  const {
+    sessionId: serverGameId,
+    isSubmitting,
+    apply: applyServerGame,
+    start: startServerGame,
+    findSaved: findSavedServerGame,
+    submit: sendServerGuess,
+    resign: resignServerGame,
+  } = useServerGame({
+    storageKey: activeGameKey,
+    dailyKey: isDaily ? dailyKey : undefined,
+    dispatch,
+  });
+
   const focusHiddenInput = useCallback(() => {
     if (typeof window === "undefined") return;
     window.setTimeout(() => {
@@ -87,13 +296,10 @@ export function WordleGame() {
 
   const handleInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
-      if (status !== "playing") {
-        setGuessValue("");
-        return;
-      }
-      setGuessValue(event.target.value);
+      if (status === "playing") setIsClockStarted(true);
+      dispatch({ type: "set-guess", value: event.target.value });
     },
-    [setGuessValue, status],
+    [dispatch, status],
   );
 
   const handleInputFocus = useCallback(() => setIsInputFocused(true), []);
@@ -121,150 +327,195 @@ export function WordleGame() {
   useEffect(() => {
     if (typeof window === "undefined") return;
     try {
-      const stored = window.localStorage.getItem(STATS_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored) as Partial<GameStats>;
-        setStats({
-          totalPlayed: parsed.totalPlayed ?? DEFAULT_STATS.totalPlayed,
-          totalWon: parsed.totalWon ?? DEFAULT_STATS.totalWon,
-          currentStreak: parsed.currentStreak ?? DEFAULT_STATS.currentStreak,
-          maxStreak: parsed.maxStreak ?? DEFAULT_STATS.maxStreak,
-        });
-      }
+      setStatsStore(loadStatsStore(window.localStorage));
     } catch {
-      setStats(DEFAULT_STATS);
+      setStatsStore(createEmptyStatsStore());
     } finally {
       setStatsLoaded(true);
     }
   }, []);
 
-  const boardWithCurrentGuess = useMemo(() => {
-    return board.map((row, rowIndex) => {
-      if (rowIndex !== currentRow) return row;
-      return row.map((cell, cellIndex) => {
-        if (cell.state !== "empty") return cell;
-        const letter = currentGuess[cellIndex] ?? "";
-        return { letter, state: "empty" as LetterState };
-      });
-    });
-  }, [board, currentRow, currentGuess]);
+  const dueReviewCount = useMemo(() => getDueWords(statsStore.review).length, [statsStore.review]);
+
+  const stats = useMemo(
+    () => (isDaily ? getDailyStats(statsStore, dailyKey) : getVariantStats(statsStore, config)),
+    [config, dailyKey, isDaily, statsStore],
+  );
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      const stored = window.localStorage.getItem(HARD_MODE_STORAGE_KEY) === "true";
+      dispatch({ type: "set-hard-mode", hardMode: stored });
+    } catch {
+      dispatch({ type: "set-hard-mode", hardMode: false });
+    }
+  }, [dispatch]);
+
+  const boardWithCurrentGuess = useMemo(() => getGameBoard(game), [game]);
+  const keyboard = useMemo(() => getGameKeyboard(game), [game]);
+
+  useEffect(() => {
+    loadGuessDictionary(config.wordLength).catch(() => showAlert("Couldn't load the word list"));
+  }, [config.wordLength, showAlert]);
 
-  const showAlert = useCallback((message: string) => {
-    setAlert(message);
-    const timeout = setTimeout(() => setAlert(null), 1800);
-    return () => clearTimeout(timeout);
+  const persistStats = useCallback((next: StatsStore) => {
+    if (typeof window === "undefined") return;
+    saveStatsStore(window.localStorage, next);
   }, []);
 
-  const updateKeyboardState = useCallback((evaluations: LetterEvaluation[]) => {
-    setKeyboard((prev) => {
-      const next = { ...prev };
-      for (const entry of evaluations) {
-        const letter = entry.letter.toUpperCase();
-        if (!letter) continue;
-
-        const existing = next[letter];
-        if (entry.state === "correct") {
-          next[letter] = "correct";
-        } else if (entry.state === "present" && existing !== "correct") {
-          next[letter] = "present";
-        } else if (!existing || existing === "empty") {
-          next[letter] = entry.state;
-        }
-      }
-      return next;
-    });
+  const isClockRunning = isClockStarted && status === "playing" && !isStatsOpen && !isPageHidden;
+
+  useEffect(() => {
+    const at = Date.now();
+    setClock((prev) => (isClockRunning ? resumeClock(prev, at) : pauseClock(prev, at)));
+    setNow(at);
+  }, [isClockRunning]);
+
+  useEffect(() => {
+    const update = () => setIsPageHidden(document.visibilityState === "hidden");
+    update();
+    document.addEventListener("visibilitychange", update);
+    return () => document.removeEventListener("visibilitychange", update);
   }, []);
 
-  const persistStats = useCallback((next: GameStats) => {
-    if (typeof window === "undefined") return;
-    window.localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(next));
+  useEffect(() => {
+    if (timer.kind === "off" || !isClockRunning) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 100);
+    return () => window.clearInterval(interval);
+  }, [isClockRunning, timer.kind]);
+
+  const resetClock = useCallback((elapsedMs: number = 0, times: number[] = []) => {
+    setClock({ elapsedMs, runningSince: null });
+    setIsClockStarted(false);
+    setGuessTimes(times);
   }, []);
 
-  const finalizeGame = useCallback(
-    (didWin: boolean) => {
-      setStatus(didWin ? "won" : "lost");
-      setStats((prev) => {
-        const totalPlayed = prev.totalPlayed + 1;
-        const totalWon = prev.totalWon + (didWin ? 1 : 0);
-        const currentStreak = didWin ? prev.currentStreak + 1 : 0;
-        const maxStreak = didWin ? Math.max(prev.maxStreak, currentStreak) : prev.maxStreak;
-        const nextStats: GameStats = {
-          totalPlayed,
-          totalWon,
-          currentStreak,
-          maxStreak,
-        };
-        persistStats(nextStats);
-        return nextStats;
+  const elapsedMs = getElapsedMs(clock, Math.max(now, clock.runningSince ?? 0));
+  const remainingMs =
+    timer.kind === "off"
+      ? null
+      : timer.limitMs - elapsedMs - (timer.kind === "budget" ? (run?.elapsedMs ?? 0) : 0);
+
+  // Records a game the engine has already ended: stats, run progress and the saved game.
+  const finishGame = useCallback(
+    (finished: GameState) => {
+      lastSolutionRef.current = finished.puzzle.solution;
+      const durationMs = getElapsedMs(clock);
+      const entry = createFinishedEntry(finished, {
+        durationMs,
+        guessTimesMs: guessTimes,
+        dailyKey: isDaily ? dailyKey : undefined,
       });
+      const nextRun =
+        timer.kind === "budget" ? advanceRun(run, timer, entry.result === "won", durationMs) : null;
+      if (nextRun) setRun(nextRun);
+      // Someone else picked a custom word, so how it went says little about the player.
+      if (!isCustom) {
+        setStatsStore((prev) => {
+          const nextStore = recordFinishedGame(prev, entry, { timer, run: nextRun });
+          persistStats(nextStore);
+          return nextStore;
+        });
+      }
       if (typeof window !== "undefined") {
+        clearActiveGame(window.localStorage, activeGameKey);
         window.setTimeout(() => {
           hiddenInputRef.current?.blur();
         }, 0);
       }
     },
-    [hiddenInputRef, persistStats],
+    [activeGameKey, clock, dailyKey, guessTimes, isCustom, isDaily, persistStats, run, timer],
   );
 
+  const submitServerGuess = useCallback(
+    async (guess: string) => {
+      try {
+        const session = await sendServerGuess(guess, hardMode);
+        if (!session) return;
+        setHint(null);
+        if (session.status !== "playing") {
+          const finished = reduceGame(game, getSessionSync(session));
+          finishGame(finished);
+          showAlert(getGameOverMessage(finished));
+        }
+      } catch (error) {
+        showAlert(error instanceof Error ? error.message : "Guess failed");
+      }
+    },
+    [finishGame, game, hardMode, sendServerGuess, showAlert],
+  );
+
+  /** Submits the pending guess, or `guess` in its place, as the auto-filled opener does. */
   const commitGuess = useCallback(
-    (guess: string) => {
-      if (status !== "playing") return;
+    (guess?: string) => {
+      if (status !== "playing" || isReviewEmpty) return;
 
-      if (guess.length !== WORD_LENGTH) {
-        showAlert("Not enough letters");
+      const plan = planGuess(game, { guess, remote: isServer });
+      if (plan.kind === "rejected") {
+        showAlert(plan.error);
         return;
       }
 
-      const normalized = normalizeGuess(guess);
-      if (!isValidGuess(normalized)) {
-        showAlert("Not in word list");
+      const guessTimeMs = getElapsedMs(clock);
+      const guessTimesMs = [...guessTimes, guessTimeMs];
+      setGuessTimes(guessTimesMs);
+
+      if (plan.kind === "send") {
+        void submitServerGuess(plan.guess);
         return;
       }
 
-      const evaluation = evaluateGuess(normalized, solution);
-      setBoard((prev) => {
-        const next = prev.map((row) => row.slice());
-        next[currentRow] = evaluation.letters;
-        return next;
-      });
-
-      updateKeyboardState(evaluation.letters);
-
-      if (evaluation.isCorrect) {
-        finalizeGame(true);
-        showAlert("Splendid!");
-      } else if (currentRow + 1 === MAX_GUESSES) {
-        finalizeGame(false);
-        showAlert(solution.toUpperCase());
-      } else {
-        setCurrentRow((prev) => prev + 1);
+      const next = plan.state;
+      setGame(next);
+      setHint(null);
+      if (next.status !== "playing") {
+        finishGame(next);
+        showAlert(getGameOverMessage(next));
+      } else if (typeof window !== "undefined") {
+        saveActiveGame(
+          window.localStorage,
+          toActiveGame(next, { elapsedMs: guessTimeMs, guessTimesMs }),
+          activeGameKey,
+        );
       }
-      setGuessValue("");
     },
-    [currentRow, finalizeGame, setGuessValue, showAlert, solution, status, updateKeyboardState],
+    [
+      activeGameKey,
+      clock,
+      finishGame,
+      game,
+      guessTimes,
+      isReviewEmpty,
+      isServer,
+      showAlert,
+      status,
+      submitServerGuess,
+    ],
   );
 
   const handleLetter = useCallback(
     (letter: string) => {
       if (status !== "playing") return;
-      if (currentGuess.length >= WORD_LENGTH) return;
-      setGuessValue(`${currentGuess}${letter}`);
+      if (currentGuess.length >= config.wordLength) return;
+      setIsClockStarted(true);
+      dispatch({ type: "type-letter", letter });
       if (isInputFocused) focusHiddenInput();
     },
-    [currentGuess, focusHiddenInput, isInputFocused, setGuessValue, status],
+    [config.wordLength, currentGuess, dispatch, focusHiddenInput, isInputFocused, status],
   );
 
   const handleBackspace = useCallback(() => {
     if (status !== "playing") return;
-    setGuessValue(currentGuess.slice(0, -1));
+    dispatch({ type: "backspace" });
     if (isInputFocused) focusHiddenInput();
-  }, [currentGuess, focusHiddenInput, isInputFocused, setGuessValue, status]);
+  }, [dispatch, focusHiddenInput, isInputFocused, status]);
 
   const handleEnter = useCallback(() => {
     if (status !== "playing") return;
-    commitGuess(currentGuess);
+    commitGuess();
     if (isInputFocused) focusHiddenInput();
-  }, [commitGuess, currentGuess, focusHiddenInput, isInputFocused, status]);
+  }, [commitGuess, focusHiddenInput, isInputFocused, status]);
 
   const handleInputKeyDown = useCallback(
     (event: ReactKeyboardEvent<HTMLInputElement>) => {
@@ -275,7 +526,7 @@ export function WordleGame() {
       }
       if (key === "Enter") {
         event.preventDefault();
-        commitGuess(currentGuess);
+        commitGuess();
         return;
       }
       if (
@@ -295,12 +546,14 @@ export function WordleGame() {
         event.preventDefault();
       }
     },
-    [commitGuess, currentGuess, status],
+    [commitGuess, status],
   );
 
   const handlePhysicalKeyboard = useCallback(
     (event: globalThis.KeyboardEvent) => {
       const { key } = event;
+      // The modal has the keyboard while it's open, so Enter can press its buttons.
+      if (isStatsOpen) return;
 
       if (key === "Enter") {
         event.preventDefault();
@@ -319,7 +572,7 @@ export function WordleGame() {
         handleLetter(key.toLowerCase());
       }
     },
-    [handleBackspace, handleEnter, handleLetter],
+    [handleBackspace, handleEnter, handleLetter, isStatsOpen],
   );
 
   useEffect(() => {
@@ -339,20 +592,482 @@ export function WordleGame() {
     };
   }, []);
 
-  const startNewGame = useCallback(() => {
-    startTransition(() => {
-      setBoard(getEmptyBoard());
-      setCurrentRow(0);
-      setGuessValue("");
-      setStatus("playing");
-      setKeyboard({});
-      setAlert(null);
-      setSolution(getRandomSolution());
+  const requestHint = useCallback(() => {
+    if (status !== "playing") return;
+    setIsHintLoading(true);
+    // Defer the ranking so the loading state paints before the solver blocks the thread.
+    window.setTimeout(() => {
+      setHint(getHint(game.rows, { config, hardMode }));
+      setIsHintLoading(false);
+    }, 0);
+  }, [config, game.rows, hardMode, status]);
+
+  const dismissHint = useCallback(() => {
+    setHint(null);
+    setIsHintLoading(false);
+  }, []);
+
+  const requestAnalysis = useCallback(() => {
+    if (status === "playing") return;
+    setIsAnalysisLoading(true);
+    window.setTimeout(() => {
+      setAnalysis(analyzeGame(game.rows, config));
+      setIsAnalysisLoading(false);
+    }, 0);
+  }, [config, game.rows, status]);
+
+  const dismissAnalysis = useCallback(() => {
+    setAnalysis(null);
+    setIsAnalysisLoading(false);
+  }, []);
+
+  // Settings can only change before the first guess so a game never mixes rule sets.
+  const canChangeSettings = status !== "playing" || currentRow === 0;
+
+  const toggleHardMode = useCallback(() => {
+    if (!canChangeSettings) {
+      showAlert("Hard mode can only change at the start");
+      return;
+    }
+    if (typeof window !== "undefined") {
+      writeStorage(window.localStorage, HARD_MODE_STORAGE_KEY, String(!hardMode));
+    }
+    dispatch({ type: "set-hard-mode", hardMode: !hardMode });
+  }, [canChangeSettings, dispatch, hardMode, showAlert]);
+
+  /** Puts a game from `getNextGame` on the board; a server game then asks for its word. */
+  const startGame = useCallback(
+    ({ puzzle: next, config: nextConfig, selection }: NextGame) => {
+      resetClock();
+      setRun((prev) => (prev?.finished ? null : prev));
+      startTransition(() => {
+        setIsReviewEmpty(!next);
+        dispatch({
+          type: "new-game",
+          puzzle: isServer || !next ? HIDDEN_PUZZLE : next,
+          config: nextConfig,
+        });
+        clearAlert();
+        setHint(null);
+        setAnalysis(null);
+      });
+      if (isServer && next) {
+        startServerGame(nextConfig, isReview ? { puzzleId: next.id } : { selection }).catch(() =>
+          showAlert(isReview ? "Couldn't start a review" : "Couldn't start a new game"),
+        );
+      }
+    },
+    [clearAlert, dispatch, isReview, isServer, resetClock, showAlert, startServerGame],
+  );
+
+  /** Review games take their word length from the due word and the guess limit from settings. */
+  const startReviewGame = useCallback(() => {
+    startGame(
+      getNextGame(loadStatsStore(window.localStorage), {
+        review: true,
+        config: loadStoredConfig(),
+        remote: isServer,
+      }),
+    );
+  }, [isServer, startGame]);
+
+  const resetGame = useCallback(
+    (nextConfig: GameConfig, filter: WordFilter = wordFilter) => {
+      startGame(
+        getNextGame(statsStore, {
+          review: isReview,
+          config: nextConfig,
+          filter,
+          skip: lastSolutionRef.current ?? undefined,
+          remote: isServer,
+          random,
+        }),
+      );
+      if (typeof window !== "undefined") {
+        clearPuzzleFromUrl();
+      }
+      if (isInputFocused) {
+        focusHiddenInput();
+      }
+    },
+    [
+      focusHiddenInput,
+      isInputFocused,
+      isReview,
+      isServer,
+      random,
+      startGame,
+      statsStore,
+      wordFilter,
+    ],
+  );
+
+  const startNewGame = useCallback(() => resetGame(config), [config, resetGame]);
+
+  const changeConfig = useCallback(
+    (patch: Partial<GameConfig>) => {
+      if (!canChangeSettings) {
+        showAlert("Finish this game to change the variant");
+        return;
+      }
+      const nextConfig = normalizeGameConfig({ ...config, ...patch });
+      if (typeof window !== "undefined") {
+        writeStorage(window.localStorage, CONFIG_STORAGE_KEY, JSON.stringify(nextConfig));
+      }
+      resetGame(nextConfig);
+    },
+    [canChangeSettings, config, resetGame, showAlert],
+  );
+
+  const changeWordFilter = useCallback(
+    (filter: WordFilter) => {
+      if (!canChangeSettings) {
+        showAlert("Finish this game to change the word focus");
+        return;
+      }
+      if (typeof window !== "undefined") {
+        writeStorage(window.localStorage, WORD_FILTER_STORAGE_KEY, filter);
+      }
+      setWordFilter(filter);
+      resetGame(config, filter);
+    },
+    [canChangeSettings, config, resetGame, showAlert],
+  );
+
+  const changeReviewMixRate = useCallback(
+    (mixRate: number) => {
+      setStatsStore((prev) => {
+        const nextStore = setReviewMixRate(prev, mixRate);
+        persistStats(nextStore);
+        return nextStore;
+      });
+    },
+    [persistStats],
+  );
+
+  const changeTimer = useCallback(
+    (setting: TimerSetting) => {
+      if (!canChangeSettings) {
+        showAlert("Finish this game to change the timer");
+        return;
+      }
+      if (typeof window !== "undefined") {
+        writeStorage(window.localStorage, TIMER_STORAGE_KEY, setting.id);
+      }
+      setTimerSetting(setting);
+      setRun(null);
+      resetClock();
+    },
+    [canChangeSettings, resetClock, showAlert],
+  );
+
+  /**
+   * Ends the current game as a loss and returns the puzzle it was, or `null` if a server game
+   * couldn't be resigned. Server games only learn their word by resigning.
+   */
+  const forfeitGame = useCallback(async (): Promise<Puzzle | null> => {
+    if (!isServer) {
+      const resigned = reduceGame(game, { type: "resign" });
+      setGame(resigned);
+      finishGame(resigned);
+      return resigned.puzzle;
+    }
+    try {
+      const session = await resignServerGame();
+      if (!session) return HIDDEN_PUZZLE;
+      const resigned = reduceGame(game, getSessionSync(session));
+      finishGame(resigned);
+      return resigned.puzzle;
+    } catch {
+      showAlert("Couldn't end this game");
+      return null;
+    }
+  }, [finishGame, game, isServer, resignServerGame, showAlert]);
+
+  const abandonGame = useCallback(async () => {
+    if (isSingleWord || status !== "playing" || currentRow === 0) return;
+    if (!window.confirm("Start a new word? This game will count as a loss.")) return;
+    if (await forfeitGame()) resetGame(config);
+  }, [config, currentRow, forfeitGame, isSingleWord, resetGame, status]);
+
+  useEffect(() => {
+    if (remainingMs === null || remainingMs > 0 || status !== "playing" || !isClockStarted) return;
+    // Stopping the clock first keeps this from firing again while a server resign is pending.
+    setIsClockStarted(false);
+    void forfeitGame().then((finished) => {
+      if (finished) {
+        showAlert(
+          finished.solution ? `Time's up · ${finished.solution.toUpperCase()}` : "Time's up",
+        );
+      }
+    });
+  }, [forfeitGame, isClockStarted, remainingMs, showAlert, status]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || isServer || !isDaily) return;
+    // One attempt per day: a finished daily comes back read-only, an unfinished one resumes.
+    const todaysResult = loadStatsStore(window.localStorage).daily.results[dailyKey];
+    const dailyPuzzle = getDailyPuzzle();
+    const savedGame = loadActiveGame(window.localStorage, DAILY_ACTIVE_GAME_STORAGE_KEY);
+    if (todaysResult) {
+      setGame((prev) => replayFinishedGame(dailyPuzzle, todaysResult, prev.hardMode));
+      return;
+    }
+    if (savedGame?.solution !== dailyPuzzle.solution) return;
+
+    setGame(resumeActiveGame({ ...savedGame, puzzleId: dailyPuzzle.id }));
+    resetClock(savedGame.elapsedMs, savedGame.guessTimesMs);
+  }, [dailyKey, isDaily, isServer, resetClock]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !isCustom || !custom) return;
+    // Only a game of this link's word resumes; one from another link is left to be overwritten.
+    const savedGame = loadActiveGame(window.localStorage, CUSTOM_ACTIVE_GAME_STORAGE_KEY);
+    const customConfig = getCustomGameConfig(custom);
+    if (
+      savedGame?.solution !== custom.word ||
+      savedGame.config.maxGuesses !== customConfig.maxGuesses
+    ) {
+      return;
+    }
+    setGame(resumeActiveGame({ ...savedGame, puzzleId: "" }));
+    resetClock(savedGame.elapsedMs, savedGame.guessTimesMs);
+  }, [custom, isCustom, resetClock]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || isServer || isDaily || isCustom) return;
+    // An unfinished game wins over the saved variant so a reload can't dodge a loss.
+    const activeGame = loadActiveGame(window.localStorage, activeGameKey);
+    const sharedPuzzle = initialPuzzleId ? getPuzzle(initialPuzzleId) : null;
+    if (activeGame && (!sharedPuzzle || sharedPuzzle.id === activeGame.puzzleId)) {
+      setGame(resumeActiveGame(activeGame));
+      resetClock(activeGame.elapsedMs, activeGame.guessTimesMs);
+      return;
+    }
+    if (isReview) {
+      startReviewGame();
+      return;
+    }
+
+    const restored = loadStoredConfig();
+    if (sharedPuzzle) {
+      // Shared puzzles pin the word length but keep the player's preferred guess count.
+      const sharedConfig = normalizeGameConfig({
+        ...restored,
+        wordLength: sharedPuzzle.solution.length,
+      });
+      dispatch({ type: "new-game", puzzle: sharedPuzzle, config: sharedConfig });
+      return;
+    }
+    if (initialPuzzleId) {
+      showAlert("Puzzle link not recognized");
+      clearPuzzleFromUrl();
+    }
+    // Re-pick even for the default variant so the saved focus and recent words apply.
+    dispatch({
+      type: "new-game",
+      puzzle: createRandomPuzzle(restored, random, loadStoredSelection(restored.wordLength)),
+      config: restored,
+    });
+  }, [
+    activeGameKey,
+    dispatch,
+    initialPuzzleId,
+    isCustom,
+    isDaily,
+    isReview,
+    isServer,
+    random,
+    resetClock,
+    showAlert,
+    startReviewGame,
+  ]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !isServer) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      if (isDaily) {
+        // A finished daily already revealed its word, so it replays from history.
+        const todaysEntry = loadStatsStore(window.localStorage).history.find(
+          (entry) => entry.mode.dailyKey === dailyKey,
+        );
+        if (todaysEntry) {
+          const finishedPuzzle = { id: todaysEntry.puzzleId ?? "", solution: todaysEntry.solution };
+          setGame(replayFinishedGame(finishedPuzzle, todaysEntry, todaysEntry.mode.hardMode));
+          return;
+        }
+      }
+
+      const savedGame = await findSavedServerGame(isDaily ? undefined : initialPuzzleId);
+      if (cancelled) return;
+      if (savedGame) {
+        applyServerGame(savedGame);
+        return;
+      }
+      if (isReview) {
+        startReviewGame();
+        return;
+      }
+
+      const startConfig = isDaily ? DEFAULT_GAME_CONFIG : loadStoredConfig();
+      try {
+        await startServerGame(
+          startConfig,
+          isDaily
+            ? {}
+            : { puzzleId: initialPuzzleId, selection: loadStoredSelection(startConfig.wordLength) },
+        );
+      } catch {
+        if (cancelled) return;
+        if (!initialPuzzleId) {
+          showAlert("Couldn't start a game");
+          return;
+        }
+        showAlert("Puzzle link not recognized");
+        clearPuzzleFromUrl();
+        await startServerGame(startConfig, {
+          selection: loadStoredSelection(startConfig.wordLength),
+        }).catch(() => undefined);
+      }
+    };
+
+    void restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    applyServerGame,
+    dailyKey,
+    findSavedServerGame,
+    initialPuzzleId,
+    isDaily,
+    isReview,
+    isServer,
+    showAlert,
+    startReviewGame,
+    startServerGame,
+  ]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      if (window.localStorage.getItem(SHARE_PALETTE_STORAGE_KEY) === "colorblind") {
+        setSharePalette("colorblind");
+      }
+    } catch {
+      setSharePalette("standard");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    setTheme(loadTheme(window.localStorage));
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    setWordFilter(loadStoredWordFilter());
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      setTimerSetting(getTimerSetting(window.localStorage.getItem(TIMER_STORAGE_KEY)));
+    } catch {
+      setTimerSetting(TIMER_SETTINGS[0]);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Declared after the restore effects, so this lands in the same render as what they restore.
+    setIsRestored(true);
+  }, []);
+
+  useOpenerAutoFill({
+    // Only random practice words are auto-filled: dailies, reviews and a friend's word are
+    // played by hand. Server games can't take a guess until their session exists.
+    ready:
+      mode === "practice" &&
+      isRestored &&
+      status === "playing" &&
+      currentRow === 0 &&
+      !isSubmitting &&
+      (isServer ? serverGameId !== null : solution !== ""),
+    wordLength: config.wordLength,
+    play: commitGuess,
+  });
+
+  const fastestSolves = useMemo(
+    () => getFastestSolves(statsStore.history, config),
+    [config, statsStore.history],
+  );
+  const bestRuns = useMemo(
+    () => (timer.kind === "budget" ? getBestRuns(statsStore.runs, timer.id) : []),
+    [statsStore.runs, timer],
+  );
+
+  const changeSharePalette = useCallback((palette: SharePalette) => {
+    setSharePalette(palette);
+    if (typeof window !== "undefined") {
+      writeStorage(window.localStorage, SHARE_PALETTE_STORAGE_KEY, palette);
+    }
+  }, []);
+
+  const toggleTheme = useCallback(() => {
+    const next: Theme = theme === "high-contrast" ? "standard" : "high-contrast";
+    setTheme(next);
+    applyTheme(next);
+    if (typeof window !== "undefined") {
+      saveTheme(window.localStorage, next);
+    }
+  }, [theme]);
+
+  const shareResult = useCallback(async () => {
+    if (status === "playing" || typeof window === "undefined") return;
+    const text = buildShareText({
+      board: game.rows,
+      didWin: status === "won",
+      maxGuesses: config.maxGuesses,
+      puzzleLabel: isDaily ? dailyKey : puzzle.id || undefined,
+      hardMode,
+      daily: isDaily,
+      palette: sharePalette,
     });
-    if (isInputFocused) {
-      focusHiddenInput();
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({ text });
+        return;
+      }
+      await navigator.clipboard.writeText(text);
+      showAlert("Copied results to clipboard");
+    } catch (error) {
+      // Closing the native share sheet rejects with AbortError; that's not a failure.
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      showAlert("Couldn't share results");
+    }
+  }, [
+    config.maxGuesses,
+    dailyKey,
+    game.rows,
+    hardMode,
+    isDaily,
+    puzzle.id,
+    sharePalette,
+    showAlert,
+    status,
+  ]);
+
+  const copyShareLink = useCallback(async () => {
+    if (!puzzle.id || typeof window === "undefined") return;
+    try {
+      await navigator.clipboard.writeText(getPuzzleUrl(puzzle.id, window.location.origin));
+      showAlert("Link copied");
+    } catch {
+      showAlert("Couldn't copy link");
     }
-  }, [focusHiddenInput, isInputFocused, setGuessValue]);
+  }, [puzzle.id, showAlert]);
 
   return (
     <div className="relative flex w-full max-w-3xl flex-col items-center gap-5 sm:gap-6">
@@ -395,16 +1110,128 @@ export function WordleGame() {
         </button>
       )}
 
-      <Board board={boardWithCurrentGuess} onActivate={handleBoardActivate} />
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+        {mode === "practice" && (
+          <VariantPicker config={config} locked={!canChangeSettings} onChange={changeConfig} />
+        )}
+        {mode === "practice" && (
+          <WordFilterPicker
+            filter={wordFilter}
+            locked={!canChangeSettings}
+            onChange={changeWordFilter}
+          />
+        )}
+        {mode === "practice" && statsLoaded && (
+          <ReviewMixPicker
+            mixRate={statsStore.review.mixRate}
+            dueCount={dueReviewCount}
+            onChange={changeReviewMixRate}
+          />
+        )}
+        {mode === "practice" && (
+          <TimerPicker setting={timerSetting} locked={!canChangeSettings} onChange={changeTimer} />
+        )}
+        <SettingToggle
+          label="Hard mode"
+          enabled={hardMode}
+          locked={!canChangeSettings}
+          onToggle={toggleHardMode}
+        />
+        <SettingToggle
+          label="High contrast"
+          enabled={theme === "high-contrast"}
+          onToggle={toggleTheme}
+        />
+      </div>
+
+      {remainingMs !== null && (
+        <GameTimer
+          remainingMs={remainingMs}
+          running={isClockRunning}
+          label={
+            timer.kind !== "budget"
+              ? status === "playing"
+                ? "Time left"
+                : "Time"
+              : run?.finished
+                ? `Run over · ${run.solved}/${timer.words} solved`
+                : `Word ${Math.min((run?.played ?? 0) + (status === "playing" ? 1 : 0), timer.words)}/${timer.words}`
+          }
+        />
+      )}
+
+      {isReviewEmpty ? (
+        <ReviewEmptyState nextDueAt={getNextDueAt(statsStore.review)} />
+      ) : (
+        // Remounted once the saved game is back, so its rows aren't announced as new guesses.
+        <Board
+          key={isRestored ? "restored" : "initial"}
+          board={boardWithCurrentGuess}
+          onActivate={handleBoardActivate}
+        />
+      )}
 
-      <Keyboard
-        keyboardState={keyboard}
-        onEnter={handleEnter}
-        onBackspace={handleBackspace}
-        onLetter={handleLetter}
-      />
+      {!isReviewEmpty && (
+        <Keyboard
+          keyboardState={keyboard}
+          onEnter={handleEnter}
+          onBackspace={handleBackspace}
+          onLetter={handleLetter}
+        />
+      )}
+
+      {status === "playing" && !isReviewEmpty && (
+        <HintPanel
+          hint={hint}
+          loading={isHintLoading}
+          onRequest={requestHint}
+          onDismiss={dismissHint}
+        />
+      )}
+
+      {!isSingleWord && status === "playing" && currentRow > 0 && (
+        <button
+          type="button"
+          onClick={abandonGame}
+          className="text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-600 transition hover:text-zinc-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+        >
+          Give up &amp; new word
+        </button>
+      )}
 
       {status !== "playing" && (
+        <ShareResult
+          palette={sharePalette}
+          onPaletteChange={changeSharePalette}
+          onShare={shareResult}
+        />
+      )}
+
+      {status !== "playing" && puzzle.id && (
+        <PuzzleLink puzzleId={puzzle.id} onCopy={copyShareLink} />
+      )}
+
+      {status !== "playing" && (
+        <AnalysisPanel
+          analysis={analysis}
+          loading={isAnalysisLoading}
+          onRequest={requestAnalysis}
+          onDismiss={dismissAnalysis}
+        />
+      )}
+
+      {isDaily && status !== "playing" && <DailyCountdown label="Next daily in" />}
+
+      {isCustom && status !== "playing" && (
+        <Link
+          href="/create"
+          className="text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-emerald-400 transition hover:text-emerald-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+        >
+          Send one back
+        </Link>
+      )}
+
+      {!isSingleWord && status !== "playing" && (
         <button
           type="button"
           className="mt-2 w-full rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-950 shadow transition hover:bg-emerald-400 sm:w-auto"
@@ -419,7 +1246,14 @@ export function WordleGame() {
           open={isStatsOpen}
           onClose={() => setIsStatsOpen(false)}
           stats={stats}
-          onNewGame={status !== "playing" ? startNewGame : undefined}
+          config={config}
+          label={
+            isDaily ? "Daily challenge" : isCustom ? "Custom puzzles aren't recorded" : undefined
+          }
+          history={statsStore.history}
+          fastestSolves={fastestSolves}
+          bestRuns={timer.kind === "budget" ? { label: timer.label, runs: bestRuns } : undefined}
+          onNewGame={!isSingleWord && status !== "playing" ? startNewGame : undefined}
         />
       )}
     </div>
@@ -430,9 +1264,10 @@ interface StatsSummaryProps {
   stats: GameStats;
 }
 
-function StatsSummary({ stats }: StatsSummaryProps) {
+export function StatsSummary({ stats }: StatsSummaryProps) {
   const winRate =
     stats.totalPlayed === 0 ? 0 : Math.round((stats.totalWon / stats.totalPlayed) * 100);
+  const averageGuesses = getAverageGuesses(stats);
 
   return (
     <div className="grid w-full max-w-md grid-cols-2 gap-3 rounded-lg border border-zinc-800 bg-zinc-950 px-4 py-3 text-center text-sm text-zinc-300 sm:grid-cols-4">
@@ -454,35 +1289,323 @@ function StatsSummary({ stats }: StatsSummaryProps) {
       </div>
       <div className="col-span-2 mt-1 text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500 sm:col-span-4">
         Max streak: <span className="text-zinc-300">{stats.maxStreak}</span>
+        <span className="mx-2 text-zinc-700">·</span>
+        Hard wins: <span className="text-zinc-300">{stats.hardModeWins}</span>
+        <span className="mx-2 text-zinc-700">·</span>
+        Avg: <span className="text-zinc-300">{averageGuesses?.toFixed(2) ?? "–"}</span>
+      </div>
+    </div>
+  );
+}
+
+interface GuessDistributionProps {
+  stats: GameStats;
+  highlight?: number;
+}
+
+function GuessDistribution({ stats, highlight }: GuessDistributionProps) {
+  const maxCount = Math.max(1, ...stats.guessDistribution);
+
+  return (
+    <div className="flex w-full flex-col gap-1">
+      <h3 className="mb-1 text-center text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+        Guess distribution
+      </h3>
+      {stats.guessDistribution.map((count, index) => (
+        <div key={`distribution-${index}`} className="flex items-center gap-2 text-xs">
+          <span className="w-3 text-right font-semibold text-zinc-400">{index + 1}</span>
+          <div className="flex-1">
+            <div
+              className={`flex h-5 min-w-[1.5rem] items-center justify-end rounded-sm px-1.5 font-semibold ${
+                highlight === index + 1
+                  ? "bg-emerald-600 text-emerald-50"
+                  : "bg-zinc-800 text-zinc-300"
+              }`}
+              style={{ width: `${Math.max(7, (count / maxCount) * 100)}%` }}
+            >
+              {count}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface GameHistoryListProps {
+  history: GameHistoryEntry[];
+  onSelect: (entry: GameHistoryEntry) => void;
+}
+
+function GameHistoryList({ history, onSelect }: GameHistoryListProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-center text-[0.65rem] uppercase tracking-[0.35em] text-zinc-600">
+        No games yet
+      </p>
+    );
+  }
+
+  return (
+    <ul className="flex max-h-48 flex-col gap-1 overflow-y-auto pr-1" aria-label="Past games">
+      {history.map((entry) => (
+        <li key={entry.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(entry)}
+            className="flex w-full items-center justify-between gap-3 rounded-md px-2 py-1.5 text-left text-xs text-zinc-400 transition hover:bg-zinc-900 hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+          >
+            <span className="font-mono uppercase tracking-[0.2em] text-zinc-200">
+              {entry.solution}
+            </span>
+            <span className="flex items-center gap-2">
+              <span className={entry.result === "won" ? "text-emerald-400" : "text-zinc-500"}>
+                {entry.result === "won"
+                  ? `${entry.guesses.length}/${entry.mode.maxGuesses}`
+                  : `X/${entry.mode.maxGuesses}`}
+              </span>
+              {entry.mode.hardMode && <span className="text-amber-400">*</span>}
+              {entry.mode.dailyKey && <span className="text-sky-400">daily</span>}
+              <span className="text-zinc-600">
+                {new Date(entry.timestamp).toLocaleDateString()}
+              </span>
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface HistoryReplayProps {
+  entry: GameHistoryEntry;
+  onBack: () => void;
+}
+
+function HistoryReplay({ entry, onBack }: HistoryReplayProps) {
+  const [step, setStep] = useState(entry.guesses.length);
+
+  const replayBoard = useMemo(() => {
+    const empty = getEmptyBoard(entry.mode);
+    return empty.map((row, rowIndex) =>
+      rowIndex < step && entry.guesses[rowIndex]
+        ? evaluateGuess(entry.guesses[rowIndex], entry.solution).letters
+        : row,
+    );
+  }, [entry, step]);
+
+  const stepButtonClassName =
+    "rounded-md border border-zinc-800 px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-400 transition hover:border-zinc-700 hover:text-zinc-200 disabled:cursor-not-allowed disabled:text-zinc-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500";
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex w-full items-center justify-between text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+        <button
+          type="button"
+          onClick={onBack}
+          className="uppercase tracking-[0.3em] transition hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+        >
+          Back
+        </button>
+        <span>
+          {entry.mode.wordLength}×{entry.mode.maxGuesses}
+          {entry.mode.hardMode ? " · hard" : ""}
+        </span>
+      </div>
+      <div className="pointer-events-none origin-top scale-75">
+        <Board board={replayBoard} onActivate={() => undefined} />
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setStep((prev) => Math.max(0, prev - 1))}
+          disabled={step === 0}
+          className={stepButtonClassName}
+        >
+          Prev
+        </button>
+        <span className="text-xs text-zinc-500">
+          {step}/{entry.guesses.length}
+          {step > 0 && entry.guessTimesMs?.[step - 1] !== undefined && (
+            <span className="ml-2 font-mono text-zinc-400">
+              {formatDuration(entry.guessTimesMs[step - 1])}
+            </span>
+          )}
+        </span>
+        <button
+          type="button"
+          onClick={() => setStep((prev) => Math.min(entry.guesses.length, prev + 1))}
+          disabled={step === entry.guesses.length}
+          className={stepButtonClassName}
+        >
+          Next
+        </button>
       </div>
     </div>
   );
 }
 
+interface LeaderboardProps {
+  solves: GameHistoryEntry[];
+  bestRuns?: { label: string; runs: TimedRun[] };
+}
+
+function Leaderboard({ solves, bestRuns }: LeaderboardProps) {
+  const headingClassName =
+    "mb-1 text-center text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500";
+  const rowClassName = "flex items-center justify-between gap-3 px-2 text-xs text-zinc-400";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-1">
+        <h3 className={headingClassName}>Best times</h3>
+        {solves.length === 0 ? (
+          <p className="text-center text-[0.65rem] uppercase tracking-[0.35em] text-zinc-600">
+            No timed wins yet
+          </p>
+        ) : (
+          <ol className="flex flex-col gap-1">
+            {solves.map((entry, index) => (
+              <li key={entry.id} className={rowClassName}>
+                <span className="w-4 text-zinc-600">{index + 1}</span>
+                <span className="flex-1 font-mono uppercase tracking-[0.2em] text-zinc-200">
+                  {entry.solution}
+                </span>
+                <span className="text-zinc-500">{entry.guesses.length} guesses</span>
+                <span className="font-mono text-emerald-400">
+                  {formatDuration(entry.durationMs ?? 0)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+      {bestRuns && bestRuns.runs.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <h3 className={headingClassName}>Best runs · {bestRuns.label}</h3>
+          <ol className="flex flex-col gap-1">
+            {bestRuns.runs.map((run, index) => (
+              <li key={run.id} className={rowClassName}>
+                <span className="w-4 text-zinc-600">{index + 1}</span>
+                <span className="flex-1 text-zinc-200">
+                  {run.solved}/{run.words} solved
+                </span>
+                <span className="text-zinc-600">
+                  {new Date(run.timestamp).toLocaleDateString()}
+                </span>
+                <span className="font-mono text-emerald-400">{formatDuration(run.totalMs)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/** Keeps Tab and Shift+Tab cycling inside `container`, as a modal dialog should. */
+function trapFocus(event: globalThis.KeyboardEvent, container: HTMLElement | null) {
+  if (!container) return;
+  const focusable = [...container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)];
+  const first = focusable[0] ?? container;
+  const last = focusable[focusable.length - 1] ?? container;
+  const active = document.activeElement;
+
+  if (!container.contains(active)) {
+    event.preventDefault();
+    first.focus();
+  } else if (event.shiftKey && (active === first || active === container)) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && active === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
 interface StatsModalProps {
   open: boolean;
   onClose: () => void;
   stats: GameStats;
+  config: GameConfig;
+  /** Replaces the variant subtitle, e.g. for the daily challenge. */
+  label?: string;
+  history: GameHistoryEntry[];
+  fastestSolves: GameHistoryEntry[];
+  /** Best runs for the current timer, when it's a multi-word budget. */
+  bestRuns?: { label: string; runs: TimedRun[] };
   onNewGame?: () => void;
 }
 
-function StatsModal({ open, onClose, stats, onNewGame }: StatsModalProps) {
+function StatsModal({
+  open,
+  onClose,
+  stats,
+  config,
+  label,
+  history,
+  fastestSolves,
+  bestRuns,
+  onNewGame,
+}: StatsModalProps) {
+  const [selectedEntry, setSelectedEntry] = useState<GameHistoryEntry | null>(null);
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const headingId = useId();
+  const lastEntry = history[0];
+  const highlight =
+    lastEntry &&
+    lastEntry.result === "won" &&
+    getVariantKey(lastEntry.mode) === getVariantKey(config)
+      ? lastEntry.guesses.length
+      : undefined;
+
+  useEffect(() => {
+    if (!open) setSelectedEntry(null);
+  }, [open]);
+
   useEffect(() => {
     if (!open) return;
     const handleKey = (event: globalThis.KeyboardEvent) => {
       if (event.key === "Escape") {
         onClose();
+      } else if (event.key === "Tab") {
+        trapFocus(event, dialogRef.current);
       }
     };
     window.addEventListener("keydown", handleKey);
     return () => window.removeEventListener("keydown", handleKey);
   }, [onClose, open]);
 
+  // Focus moves into the dialog when it opens and back to whatever opened it when it closes.
+  useEffect(() => {
+    if (!open) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    dialogRef.current?.focus();
+    return () => {
+      if (opener?.isConnected) opener.focus();
+    };
+  }, [open]);
+
+  // Opening or leaving a replay removes the button that had focus; keep it in the dialog.
+  useEffect(() => {
+    if (open && !dialogRef.current?.contains(document.activeElement)) dialogRef.current?.focus();
+  }, [open, selectedEntry]);
+
   if (!open) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4 py-10 backdrop-blur-sm">
-      <div className="relative w-full max-w-sm rounded-xl border border-zinc-800 bg-zinc-950/95 p-6 shadow-xl">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={headingId}
+        tabIndex={-1}
+        className="relative max-h-full w-full max-w-sm overflow-y-auto rounded-xl border border-zinc-800 bg-zinc-950/95 p-6 shadow-xl outline-none"
+      >
         <button
           type="button"
           onClick={onClose}
@@ -490,10 +1613,34 @@ function StatsModal({ open, onClose, stats, onNewGame }: StatsModalProps) {
         >
           Close
         </button>
-        <h2 className="mb-4 text-center text-base font-semibold uppercase tracking-[0.4em] text-zinc-300">
+        <h2
+          id={headingId}
+          className="mb-1 text-center text-base font-semibold uppercase tracking-[0.4em] text-zinc-300"
+        >
           Stats
         </h2>
-        <StatsSummary stats={stats} />
+        <p className="mb-4 text-center text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+          {label ?? `${config.wordLength} letters · ${config.maxGuesses} guesses`}
+        </p>
+        {selectedEntry ? (
+          <HistoryReplay
+            key={selectedEntry.id}
+            entry={selectedEntry}
+            onBack={() => setSelectedEntry(null)}
+          />
+        ) : (
+          <div className="flex flex-col gap-5">
+            <StatsSummary stats={stats} />
+            <GuessDistribution stats={stats} highlight={highlight} />
+            <Leaderboard solves={fastestSolves} bestRuns={bestRuns} />
+            <div className="flex flex-col gap-1">
+              <h3 className="mb-1 text-center text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+                History
+              </h3>
+              <GameHistoryList history={history} onSelect={setSelectedEntry} />
+            </div>
+          </div>
+        )}
 
         {onNewGame && (
           <button
@@ -512,58 +1659,429 @@ function StatsModal({ open, onClose, stats, onNewGame }: StatsModalProps) {
   );
 }
 
-interface BoardProps {
-  board: LetterEvaluation[][];
-  onActivate: () => void;
+interface ShareResultProps {
+  palette: SharePalette;
+  onPaletteChange: (palette: SharePalette) => void;
+  onShare: () => void;
 }
 
-function Board({ board, onActivate }: BoardProps) {
+function ShareResult({ palette, onPaletteChange, onShare }: ShareResultProps) {
   return (
-    <div
-      className="grid w-full max-w-[min(100%,320px)] select-none gap-1.5 cursor-text sm:max-w-none sm:gap-2"
-      onClick={onActivate}
-      onTouchStart={() => {
-        onActivate();
-      }}
-      aria-label="Word grid"
-      role="grid"
-    >
-      {board.map((row, rowIndex) => (
-        <div
-          key={`board-row-${rowIndex}`}
-          className="grid grid-cols-5 gap-1.5 sm:gap-2 [perspective:1200px]"
-          role="row"
+    <div className="flex items-center gap-4">
+      <button
+        type="button"
+        onClick={onShare}
+        className="rounded-md border border-emerald-500/60 bg-emerald-500/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.25em] text-emerald-300 transition hover:bg-emerald-500/20 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+      >
+        Share
+      </button>
+      <label className="flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-500">
+        <input
+          type="checkbox"
+          checked={palette === "colorblind"}
+          onChange={(event) => onPaletteChange(event.target.checked ? "colorblind" : "standard")}
+          className="accent-orange-500"
+        />
+        Colorblind emoji
+      </label>
+    </div>
+  );
+}
+
+interface PuzzleLinkProps {
+  puzzleId: string;
+  onCopy: () => void;
+}
+
+function PuzzleLink({ puzzleId, onCopy }: PuzzleLinkProps) {
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  return (
+    <div className="flex w-full max-w-sm items-center gap-2 rounded-lg border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-400">
+      <span className="shrink-0 text-[0.65rem] uppercase tracking-[0.35em] text-zinc-500">
+        Puzzle
+      </span>
+      <input
+        readOnly
+        value={origin ? getPuzzleUrl(puzzleId, origin) : puzzleId}
+        onFocus={(event) => event.target.select()}
+        aria-label="Share link for this puzzle"
+        className="min-w-0 flex-1 bg-transparent font-mono text-zinc-200 outline-none"
+      />
+      <button
+        type="button"
+        onClick={onCopy}
+        className="shrink-0 rounded-md border border-zinc-800 px-2 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] text-zinc-400 transition hover:border-zinc-700 hover:text-zinc-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+      >
+        Copy
+      </button>
+    </div>
+  );
+}
+
+interface VariantPickerProps {
+  config: GameConfig;
+  locked: boolean;
+  onChange: (patch: Partial<GameConfig>) => void;
+}
+
+const GUESS_LIMIT_OPTIONS = Array.from(
+  { length: MAX_GUESS_LIMIT - MIN_GUESSES + 1 },
+  (_, index) => MIN_GUESSES + index,
+);
+
+function VariantPicker({ config, locked, onChange }: VariantPickerProps) {
+  const selectClassName =
+    "rounded-md border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs font-semibold text-zinc-200 transition hover:border-zinc-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500 disabled:cursor-not-allowed disabled:text-zinc-600";
+
+  return (
+    <div className="flex items-center gap-3 text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+      <label className="flex items-center gap-2">
+        Letters
+        <select
+          value={config.wordLength}
+          disabled={locked}
+          onChange={(event) => onChange({ wordLength: Number(event.target.value) })}
+          className={selectClassName}
         >
-          {row.map((cell, cellIndex) => (
-            <Tile
-              key={`tile-${rowIndex}-${cellIndex}-${cell.state}-${cell.letter}`}
-              letter={cell.letter}
-              state={cell.state}
-              index={cellIndex}
-            />
+          {SUPPORTED_WORD_LENGTHS.map((length) => (
+            <option key={`word-length-${length}`} value={length}>
+              {length}
+            </option>
           ))}
-        </div>
-      ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Guesses
+        <select
+          value={config.maxGuesses}
+          disabled={locked}
+          onChange={(event) => onChange({ maxGuesses: Number(event.target.value) })}
+          className={selectClassName}
+        >
+          {GUESS_LIMIT_OPTIONS.map((count) => (
+            <option key={`guess-limit-${count}`} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+interface WordFilterPickerProps {
+  filter: WordFilter;
+  locked: boolean;
+  onChange: (filter: WordFilter) => void;
+}
+
+function WordFilterPicker({ filter, locked, onChange }: WordFilterPickerProps) {
+  return (
+    <label className="flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+      Focus
+      <select
+        value={filter}
+        disabled={locked}
+        onChange={(event) => onChange(event.target.value as WordFilter)}
+        className="rounded-md border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs font-semibold text-zinc-200 transition hover:border-zinc-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500 disabled:cursor-not-allowed disabled:text-zinc-600"
+      >
+        {WORD_FILTERS.map((option) => (
+          <option key={`word-filter-${option.value}`} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface ReviewMixPickerProps {
+  mixRate: number;
+  dueCount: number;
+  onChange: (mixRate: number) => void;
+}
+
+function ReviewMixPicker({ mixRate, dueCount, onChange }: ReviewMixPickerProps) {
+  return (
+    <label className="flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+      Review mix
+      <select
+        value={mixRate}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="rounded-md border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs font-semibold text-zinc-200 transition hover:border-zinc-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+      >
+        {REVIEW_MIX_RATES.map((rate) => (
+          <option key={`review-mix-${rate}`} value={rate}>
+            {rate === 0 ? "Off" : `${Math.round(rate * 100)}%`}
+          </option>
+        ))}
+      </select>
+      {dueCount > 0 && <span className="text-zinc-600">{dueCount} due</span>}
+    </label>
+  );
+}
+
+interface ReviewEmptyStateProps {
+  nextDueAt: number | null;
+}
+
+function ReviewEmptyState({ nextDueAt }: ReviewEmptyStateProps) {
+  const hoursUntilDue = nextDueAt === null ? null : Math.ceil((nextDueAt - Date.now()) / 3600000);
+
+  return (
+    <div className="flex w-full max-w-sm flex-col items-center gap-3 rounded-lg border border-zinc-800 bg-zinc-950 px-6 py-8 text-center">
+      <p className="text-sm font-semibold uppercase tracking-[0.3em] text-zinc-200">
+        Nothing to review
+      </p>
+      <p className="text-xs text-zinc-500">
+        {hoursUntilDue === null
+          ? "Words you lose or only just solve come back here on a spaced schedule."
+          : hoursUntilDue < 24
+            ? `Next word due in ${Math.max(1, hoursUntilDue)}h.`
+            : `Next word due in ${Math.ceil(hoursUntilDue / 24)}d.`}
+      </p>
+      <Link
+        href="/"
+        className="text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-emerald-400 transition hover:text-emerald-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500"
+      >
+        Back to practice
+      </Link>
     </div>
   );
 }
 
+interface TimerPickerProps {
+  setting: TimerSetting;
+  locked: boolean;
+  onChange: (setting: TimerSetting) => void;
+}
+
+function TimerPicker({ setting, locked, onChange }: TimerPickerProps) {
+  return (
+    <label className="flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+      Timer
+      <select
+        value={setting.id}
+        disabled={locked}
+        onChange={(event) => onChange(getTimerSetting(event.target.value))}
+        className="rounded-md border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs font-semibold text-zinc-200 transition hover:border-zinc-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500 disabled:cursor-not-allowed disabled:text-zinc-600"
+      >
+        {TIMER_SETTINGS.map((option) => (
+          <option key={`timer-${option.id}`} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface GameTimerProps {
+  remainingMs: number;
+  running: boolean;
+  label: string;
+}
+
+function GameTimer({ remainingMs, running, label }: GameTimerProps) {
+  return (
+    <p className="flex items-center gap-3 text-[0.65rem] font-semibold uppercase tracking-[0.35em] text-zinc-500">
+      {label}
+      <span
+        role="timer"
+        className={`font-mono text-base tracking-normal ${
+          remainingMs <= 10_000 ? "text-rose-400" : running ? "text-zinc-100" : "text-zinc-500"
+        }`}
+      >
+        {formatDuration(remainingMs)}
+      </span>
+    </p>
+  );
+}
+
+interface SettingToggleProps {
+  label: string;
+  enabled: boolean;
+  locked?: boolean;
+  onToggle: () => void;
+}
+
+function SettingToggle({ label, enabled, locked = false, onToggle }: SettingToggleProps) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={enabled}
+      onClick={onToggle}
+      className={`flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-[0.35em] transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-500 ${
+        locked ? "cursor-not-allowed text-zinc-600" : "text-zinc-400 hover:text-zinc-200"
+      }`}
+    >
+      <span
+        className={`relative inline-flex h-4 w-7 items-center rounded-full transition ${
+          enabled ? "bg-emerald-500" : "bg-zinc-800"
+        }`}
+      >
+        <span
+          className={`absolute h-3 w-3 rounded-full bg-zinc-100 transition-transform ${
+            enabled ? "translate-x-3.5" : "translate-x-0.5"
+          }`}
+        />
+      </span>
+      {label}
+    </button>
+  );
+}
+
+interface BoardProps {
+  board: LetterEvaluation[][];
+  onActivate: () => void;
+  /** Smaller tiles, for long words or several boards side by side. */
+  compact?: boolean;
+  label?: string;
+}
+
+const DEFAULT_BOARD_LABEL = "Word grid";
+
+interface GridCell {
+  row: number;
+  column: number;
+}
+
+/** Where an arrow, Home or End key moves focus in a grid, or `null` for any other key. */
+function getNextCell(
+  event: ReactKeyboardEvent,
+  { row, column }: GridCell,
+  rows: number,
+  columns: number,
+): GridCell | null {
+  switch (event.key) {
+    case "ArrowUp":
+      return { row: Math.max(row - 1, 0), column };
+    case "ArrowDown":
+      return { row: Math.min(row + 1, rows - 1), column };
+    case "ArrowLeft":
+      return { row, column: Math.max(column - 1, 0) };
+    case "ArrowRight":
+      return { row, column: Math.min(column + 1, columns - 1) };
+    case "Home":
+      return { row: event.ctrlKey ? 0 : row, column: 0 };
+    case "End":
+      return { row: event.ctrlKey ? rows - 1 : row, column: columns - 1 };
+    default:
+      return null;
+  }
+}
+
+export function Board({
+  board,
+  onActivate,
+  compact = false,
+  label = DEFAULT_BOARD_LABEL,
+}: BoardProps) {
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  const rows = board.length;
+  const columns = board[0]?.length ?? 0;
+  // One tile is in the tab order at a time; the arrow keys move it around the grid.
+  const [focusedCell, setFocusedCell] = useState<GridCell>({ row: 0, column: 0 });
+  const activeCell = {
+    row: Math.min(focusedCell.row, rows - 1),
+    column: Math.min(focusedCell.column, columns - 1),
+  };
+
+  const committedRows = board.filter(isCommittedRow).length;
+  // Rows already on the board when it mounts were announced the first time round.
+  const announcedRowsRef = useRef(committedRows);
+  const [announcement, setAnnouncement] = useState("");
+
+  useEffect(() => {
+    if (committedRows > announcedRowsRef.current) {
+      const summary = describeRow(board[committedRows - 1], committedRows - 1);
+      setAnnouncement(label === DEFAULT_BOARD_LABEL ? summary : `${label}, ${summary}`);
+    }
+    announcedRowsRef.current = committedRows;
+  }, [board, committedRows, label]);
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    const next = getNextCell(event, activeCell, rows, columns);
+    if (!next) return;
+    event.preventDefault();
+    setFocusedCell(next);
+    gridRef.current
+      ?.querySelector<HTMLElement>(`[data-cell="${next.row}-${next.column}"]`)
+      ?.focus();
+  };
+
+  return (
+    <>
+      <div
+        ref={gridRef}
+        className="grid w-full max-w-[min(100%,320px)] select-none gap-1.5 cursor-text sm:max-w-none sm:gap-2"
+        onClick={onActivate}
+        onTouchStart={() => {
+          onActivate();
+        }}
+        onKeyDown={handleKeyDown}
+        aria-label={label}
+        role="grid"
+      >
+        {board.map((row, rowIndex) => (
+          <div
+            key={`board-row-${rowIndex}`}
+            className="grid gap-1.5 sm:gap-2 [perspective:1200px]"
+            style={{ gridTemplateColumns: `repeat(${row.length}, minmax(0, 1fr))` }}
+            role="row"
+          >
+            {row.map((cell, cellIndex) => (
+              <Tile
+                key={`tile-${rowIndex}-${cellIndex}`}
+                letter={cell.letter}
+                state={cell.state}
+                row={rowIndex}
+                index={cellIndex}
+                focusable={rowIndex === activeCell.row && cellIndex === activeCell.column}
+                onFocus={() => setFocusedCell({ row: rowIndex, column: cellIndex })}
+                compact={compact || row.length > 5}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <p className="sr-only" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </p>
+    </>
+  );
+}
+
 interface TileProps {
   letter: string;
   state: LetterState;
+  row: number;
   index: number;
+  /** Whether this is the tile Tab lands on in the grid. */
+  focusable: boolean;
+  onFocus: () => void;
+  compact?: boolean;
 }
 
-function Tile({ letter, state, index }: TileProps) {
-  let base =
-    "flex aspect-square w-12 items-center justify-center rounded-md border-2 text-xl font-semibold uppercase transition-transform duration-200 sm:w-14 sm:text-2xl";
+function Tile({ letter, state, row, index, focusable, onFocus, compact = false }: TileProps) {
+  let base = compact
+    ? "flex aspect-square w-10 items-center justify-center rounded-md border-2 text-lg font-semibold uppercase transition-transform duration-200 motion-reduce:transition-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-400 sm:w-12 sm:text-xl"
+    : "flex aspect-square w-12 items-center justify-center rounded-md border-2 text-xl font-semibold uppercase transition-transform duration-200 motion-reduce:transition-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-zinc-400 sm:w-14 sm:text-2xl";
 
   switch (state) {
     case "correct":
-      base += " border-emerald-600 bg-emerald-600 text-emerald-50";
+      base +=
+        " border-emerald-600 bg-emerald-600 text-emerald-50 high-contrast:border-orange-500 high-contrast:bg-orange-500 high-contrast:text-orange-950";
       break;
     case "present":
-      base += " border-amber-500 bg-amber-500 text-amber-950";
+      base +=
+        " border-amber-500 bg-amber-500 text-amber-950 high-contrast:border-sky-500 high-contrast:bg-sky-500 high-contrast:text-sky-950";
       break;
     case "absent":
       base += " border-zinc-800 bg-zinc-900 text-zinc-600";
@@ -591,6 +2109,9 @@ function Tile({ letter, state, index }: TileProps) {
       style={shouldAnimate ? { animationDelay: `${index * 80}ms` } : undefined}
       role="gridcell"
       aria-label={accessibilityLabel}
+      tabIndex={focusable ? 0 : -1}
+      onFocus={onFocus}
+      data-cell={`${row}-${index}`}
     >
       {letter.toUpperCase()}
     </div>
@@ -599,12 +2120,20 @@ function Tile({ letter, state, index }: TileProps) {
 
 interface KeyboardProps {
   keyboardState: KeyboardState;
+  /** Per-board letter states for multi-board games; each key is split into one region per board. */
+  splitState?: SplitKeyboardState;
   onLetter: (letter: string) => void;
   onEnter: () => void;
   onBackspace: () => void;
 }
 
-function Keyboard({ keyboardState, onLetter, onEnter, onBackspace }: KeyboardProps) {
+export function Keyboard({
+  keyboardState,
+  splitState,
+  onLetter,
+  onEnter,
+  onBackspace,
+}: KeyboardProps) {
   return (
     <div className="flex w-full max-w-[min(100%,360px)] flex-col items-center gap-1.5 sm:max-w-3xl sm:gap-2">
       {KEYBOARD_ROWS.map((row, rowIndex) => (
@@ -618,6 +2147,7 @@ function Keyboard({ keyboardState, onLetter, onEnter, onBackspace }: KeyboardPro
               key={`key-${letter}-${keyboardState[letter] ?? "none"}`}
               label={letter}
               state={keyboardState[letter]}
+              splitStates={splitState?.[letter]}
               onClick={() => onLetter(letter.toLowerCase())}
             />
           ))}
@@ -638,20 +2168,50 @@ function Keyboard({ keyboardState, onLetter, onEnter, onBackspace }: KeyboardPro
 interface KeyboardKeyProps {
   label: string;
   state?: LetterState;
+  splitStates?: (LetterState | undefined)[];
   onClick: () => void;
   className?: string;
 }
 
-function KeyboardKey({ label, state, onClick, className }: KeyboardKeyProps) {
+const SPLIT_KEY_COLORS: Record<LetterState, string> = {
+  correct: "bg-emerald-500 high-contrast:bg-orange-500",
+  present: "bg-amber-400 high-contrast:bg-sky-400",
+  absent: "bg-zinc-800",
+  empty: "bg-zinc-900",
+};
+
+function KeyboardKey({ label, state, splitStates, onClick, className }: KeyboardKeyProps) {
+  if (splitStates) {
+    // Two boards split the key left and right; four split it into quadrants.
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        aria-label={`${label}: ${splitStates.map((entry) => entry ?? "unused").join(", ")}`}
+        className={`relative flex h-10 min-w-[34px] items-center justify-center overflow-hidden rounded-md border border-zinc-800 px-1.5 text-xs font-semibold uppercase text-zinc-100 transition hover:brightness-110 active:scale-[0.98] sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm ${className ?? ""}`}
+      >
+        <span
+          aria-hidden="true"
+          className={`absolute inset-0 grid ${splitStates.length > 2 ? "grid-cols-2 grid-rows-2" : "grid-cols-2"}`}
+        >
+          {splitStates.map((entry, index) => (
+            <span key={`split-${index}`} className={SPLIT_KEY_COLORS[entry ?? "empty"]} />
+          ))}
+        </span>
+        <span className="relative [text-shadow:0_1px_2px_rgb(0_0_0_/_0.8)]">{label}</span>
+      </button>
+    );
+  }
+
   let base =
     "flex h-10 min-w-[34px] items-center justify-center rounded-md border border-zinc-800 bg-zinc-900 px-1.5 text-xs font-semibold uppercase text-zinc-200 transition hover:bg-zinc-800 active:scale-[0.98] sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm";
 
   if (state === "correct") {
     base =
-      "flex h-10 min-w-[34px] items-center justify-center rounded-md border border-emerald-500 bg-emerald-500 px-1.5 text-xs font-semibold uppercase text-emerald-950 transition hover:brightness-110 active:scale-[0.98] sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm";
+      "flex h-10 min-w-[34px] items-center justify-center rounded-md border border-emerald-500 bg-emerald-500 px-1.5 text-xs font-semibold uppercase text-emerald-950 transition hover:brightness-110 active:scale-[0.98] high-contrast:border-orange-500 high-contrast:bg-orange-500 high-contrast:text-orange-950 sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm";
   } else if (state === "present") {
     base =
-      "flex h-10 min-w-[34px] items-center justify-center rounded-md border border-amber-400 bg-amber-400 px-1.5 text-xs font-semibold uppercase text-amber-950 transition hover:brightness-110 active:scale-[0.98] sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm";
+      "flex h-10 min-w-[34px] items-center justify-center rounded-md border border-amber-400 bg-amber-400 px-1.5 text-xs font-semibold uppercase text-amber-950 transition hover:brightness-110 active:scale-[0.98] high-contrast:border-sky-400 high-contrast:bg-sky-400 high-contrast:text-sky-950 sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm";
   } else if (state === "absent") {
     base =
       "flex h-10 min-w-[34px] items-center justify-center rounded-md border border-zinc-700 bg-zinc-800 px-1.5 text-xs font-semibold uppercase text-zinc-500 transition hover:brightness-110 active:scale-[0.98] sm:h-12 sm:min-w-[44px] sm:px-2 sm:text-sm";
@@ -661,6 +2221,7 @@ function KeyboardKey({ label, state, onClick, className }: KeyboardKeyProps) {
     <button
       type="button"
       onClick={onClick}
+      aria-label={state ? `${label} ${state}` : undefined}
       className={`${base} ${state ? "animate-key-pop" : ""} ${className ?? ""}`}
     >
       {label}
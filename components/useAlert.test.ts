@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useAlert } from "./useAlert";
+
+describe("useAlert", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("clears a message after a while", () => {
+    const { result } = renderHook(() => useAlert());
+    act(() => result.current.showAlert("Not in word list"));
+    expect(result.current.alert).toBe("Not in word list");
+
+    act(() => vi.advanceTimersByTime(1800));
+    expect(result.current.alert).toBeNull();
+  });
+
+  it("gives a newer message its full time", () => {
+    const { result } = renderHook(() => useAlert());
+    act(() => result.current.showAlert("Not enough letters"));
+    act(() => vi.advanceTimersByTime(1000));
+    act(() => result.current.showAlert("Not in word list"));
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(result.current.alert).toBe("Not in word list");
+    act(() => vi.advanceTimersByTime(800));
+    expect(result.current.alert).toBeNull();
+  });
+
+  it("drops a pending timer when the message is cleared", () => {
+    const { result } = renderHook(() => useAlert());
+    act(() => result.current.showAlert("Not enough letters"));
+    act(() => result.current.clearAlert());
+    expect(result.current.alert).toBeNull();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
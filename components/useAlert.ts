@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const ALERT_DURATION_MS = 1800;
+
+/**
+ * A short message that clears itself. Each new message restarts the countdown, so an earlier
+ * message's timer can't cut a later one short.
+ */
+export function useAlert() {
+  const [alert, setAlert] = useState<string | null>(null);
+  const timeoutRef = useRef<number | null>(null);
+
+  const cancelTimeout = useCallback(() => {
+    if (timeoutRef.current !== null) window.clearTimeout(timeoutRef.current);
+    timeoutRef.current = null;
+  }, []);
+
+  const showAlert = useCallback(
+    (message: string) => {
+      cancelTimeout();
+      setAlert(message);
+      timeoutRef.current = window.setTimeout(() => {
+        timeoutRef.current = null;
+        setAlert(null);
+      }, ALERT_DURATION_MS);
+    },
+    [cancelTimeout],
+  );
+
+  const clearAlert = useCallback(() => {
+    cancelTimeout();
+    setAlert(null);
+  }, [cancelTimeout]);
+
+  useEffect(() => cancelTimeout, [cancelTimeout]);
+
+  return { alert, showAlert, clearAlert };
+}
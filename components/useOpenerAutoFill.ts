@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { loadGuessDictionary } from "../lib/word-bank";
+import { DEFAULT_OPENER_SETTINGS, loadOpenerSettings } from "../lib/openers";
+
+/**
+ * Plays the saved opener as the first guess when auto-fill is on and the opener fits the word
+ * length. `ready` says the game can take a guess; the guess list loads first so the opener
+ * passes the word check.
+ */
+export function useOpenerAutoFill({
+  ready,
+  wordLength,
+  play,
+}: {
+  ready: boolean;
+  wordLength: number;
+  play: (guess: string) => void;
+}) {
+  const [settings, setSettings] = useState(DEFAULT_OPENER_SETTINGS);
+  const opener = settings.autoFill ? settings.word : null;
+
+  useEffect(() => {
+    setSettings(loadOpenerSettings(window.localStorage));
+  }, []);
+
+  useEffect(() => {
+    if (!ready || !opener || opener.length !== wordLength) return;
+    let cancelled = false;
+    loadGuessDictionary(wordLength).then(
+      () => {
+        if (!cancelled) play(opener);
+      },
+      () => undefined,
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [opener, play, ready, wordLength]);
+}
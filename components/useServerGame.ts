@@ -0,0 +1,117 @@
+import { useCallback, useState } from "react";
+import type { GameConfig } from "../lib/wordle";
+import { GameAction, getSessionSync } from "../lib/game-engine";
+import type { PublicGameSession } from "../lib/game-session";
+import type { SelectionOptions } from "../lib/selection";
+import { loadServerGame, saveServerGame } from "../lib/active-game";
+
+interface GameResponse {
+  game?: PublicGameSession;
+  error?: string;
+}
+
+async function requestGame(path: string, body?: unknown): Promise<PublicGameSession> {
+  const response = await fetch(
+    path,
+    body === undefined
+      ? undefined
+      : {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+  );
+  const payload = (await response.json()) as GameResponse;
+  if (!response.ok || !payload.game) throw new Error(payload.error ?? "Request failed");
+  return payload.game;
+}
+
+interface ServerGameOptions {
+  /** Where the session ID is saved so a reload can pick the game back up. */
+  storageKey: string;
+  /** Today's key for a daily, which the server picks the word by. */
+  dailyKey?: string;
+  /** Receives each session the server sends back as a `sync` action. */
+  dispatch: (action: GameAction) => void;
+}
+
+/**
+ * The `/api/game` session behind a server game. Every call syncs the session it gets back into
+ * the game through `dispatch` and resolves with it; failed requests reject with the server's
+ * error.
+ */
+export function useServerGame({ storageKey, dailyKey, dispatch }: ServerGameOptions) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const apply = useCallback(
+    (session: PublicGameSession) => {
+      setSessionId(session.id);
+      dispatch(getSessionSync(session));
+      return session;
+    },
+    [dispatch],
+  );
+
+  const start = useCallback(
+    async (
+      config: GameConfig,
+      { puzzleId, selection }: { puzzleId?: string; selection?: SelectionOptions } = {},
+    ) => {
+      setSessionId(null);
+      const session = await requestGame("/api/game", {
+        config,
+        puzzleId,
+        dailyKey,
+        filter: selection?.filter,
+        recent: selection?.recent,
+        review: selection?.review,
+      });
+      saveServerGame(window.localStorage, { id: session.id, puzzleId }, storageKey);
+      return apply(session);
+    },
+    [apply, dailyKey, storageKey],
+  );
+
+  /**
+   * The saved session if the server still has it in play, without applying it. A `puzzleId`
+   * only resumes a session started on that puzzle; a daily only resumes today's.
+   */
+  const findSaved = useCallback(
+    async (puzzleId?: string): Promise<PublicGameSession | null> => {
+      const saved = loadServerGame(window.localStorage, storageKey);
+      if (!saved || (puzzleId && saved.puzzleId !== puzzleId)) return null;
+      try {
+        const session = await requestGame(`/api/game/${saved.id}`);
+        const isCurrent = !dailyKey || session.dailyKey === dailyKey;
+        return session.status === "playing" && isCurrent ? session : null;
+      } catch {
+        // The server restarted or the session expired.
+        return null;
+      }
+    },
+    [dailyKey, storageKey],
+  );
+
+  /** Sends a guess; resolves with `null` when there's no session yet or a guess is in flight. */
+  const submit = useCallback(
+    async (guess: string, hardMode: boolean): Promise<PublicGameSession | null> => {
+      if (!sessionId || isSubmitting) return null;
+      setIsSubmitting(true);
+      try {
+        return apply(await requestGame(`/api/game/${sessionId}/guess`, { guess, hardMode }));
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [apply, isSubmitting, sessionId],
+  );
+
+  /** Ends the game as a loss, which is how a server game gives up its word. */
+  const resign = useCallback(async (): Promise<PublicGameSession | null> => {
+    if (!sessionId) return null;
+    return apply(await requestGame(`/api/game/${sessionId}/resign`, {}));
+  }, [apply, sessionId]);
+
+  return { sessionId, isSubmitting, apply, start, findSaved, submit, resign };
+}
@@ -0,0 +1,147 @@
+import { GameConfig, evaluateGuess, normalizeGameConfig } from "./wordle";
+import {
+  MultiBoardGame,
+  MultiBoardVariantId,
+  getMultiBoardStatus,
+  normalizeMultiBoardGame,
+} from "./multi-board";
+import { removeStorage, writeStorage } from "./storage";
+
+export const ACTIVE_GAME_STORAGE_KEY = "wordle-practice/active-game";
+export const DAILY_ACTIVE_GAME_STORAGE_KEY = "wordle-practice/active-game/daily";
+export const REVIEW_ACTIVE_GAME_STORAGE_KEY = "wordle-practice/active-game/review";
+export const MULTI_BOARD_ACTIVE_GAME_STORAGE_KEY = "wordle-practice/active-game/multi";
+export const CUSTOM_ACTIVE_GAME_STORAGE_KEY = "wordle-practice/active-game/custom";
+// Server-backed games only remember which session they belong to; the server holds the rest.
+export const SERVER_GAME_STORAGE_KEY = "wordle-practice/server-game";
+export const DAILY_SERVER_GAME_STORAGE_KEY = "wordle-practice/server-game/daily";
+export const REVIEW_SERVER_GAME_STORAGE_KEY = "wordle-practice/server-game/review";
+
+type ActiveGameStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/** The minimum needed to rebuild an unfinished game; the game engine derives the rest. */
+export interface ActiveGame {
+  solution: string;
+  config: GameConfig;
+  hardMode: boolean;
+  guesses: string[];
+  puzzleId?: string;
+  /** Active play time banked so far, so a reload doesn't reset the clock. */
+  elapsedMs?: number;
+  guessTimesMs?: number[];
+}
+
+export function saveActiveGame(
+  storage: ActiveGameStorage,
+  game: ActiveGame,
+  key: string = ACTIVE_GAME_STORAGE_KEY,
+) {
+  writeStorage(storage, key, JSON.stringify(game));
+}
+
+export function clearActiveGame(storage: ActiveGameStorage, key: string = ACTIVE_GAME_STORAGE_KEY) {
+  removeStorage(storage, key);
+}
+
+/**
+ * Checks a saved game by replaying its guesses against its solution. Returns `null` for
+ * missing, corrupt or already-finished games.
+ */
+export function restoreActiveGame(game: Partial<ActiveGame> | null): ActiveGame | null {
+  if (!game || typeof game.solution !== "string" || !Array.isArray(game.guesses)) return null;
+
+  const config = normalizeGameConfig(game.config);
+  const solution = game.solution;
+  if (solution.length !== config.wordLength) return null;
+
+  const guesses = game.guesses.filter(
+    (guess): guess is string =>
+      typeof guess === "string" && guess.length === config.wordLength && /^[a-z]+$/.test(guess),
+  );
+  if (guesses.length !== game.guesses.length || guesses.length >= config.maxGuesses) return null;
+
+  const rows = guesses.map((guess) => evaluateGuess(guess, solution));
+  if (rows.some((row) => row.isCorrect)) return null;
+
+  const guessTimesMs =
+    Array.isArray(game.guessTimesMs) && game.guessTimesMs.length === guesses.length
+      ? game.guessTimesMs.filter((time) => typeof time === "number")
+      : undefined;
+
+  return {
+    solution,
+    config,
+    hardMode: game.hardMode === true,
+    guesses,
+    puzzleId: typeof game.puzzleId === "string" ? game.puzzleId : undefined,
+    elapsedMs: typeof game.elapsedMs === "number" ? game.elapsedMs : undefined,
+    guessTimesMs,
+  };
+}
+
+export function loadActiveGame(
+  storage: ActiveGameStorage,
+  key: string = ACTIVE_GAME_STORAGE_KEY,
+): ActiveGame | null {
+  try {
+    const stored = storage.getItem(key);
+    return stored ? restoreActiveGame(JSON.parse(stored) as Partial<ActiveGame>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Points at an unfinished server-backed game; `puzzleId` is the shared link it was started from. */
+export interface SavedServerGame {
+  id: string;
+  puzzleId?: string;
+}
+
+export function saveServerGame(
+  storage: ActiveGameStorage,
+  game: SavedServerGame,
+  key: string = SERVER_GAME_STORAGE_KEY,
+) {
+  writeStorage(storage, key, JSON.stringify(game));
+}
+
+export function loadServerGame(
+  storage: ActiveGameStorage,
+  key: string = SERVER_GAME_STORAGE_KEY,
+): SavedServerGame | null {
+  try {
+    const stored = storage.getItem(key);
+    const game = stored ? (JSON.parse(stored) as Partial<SavedServerGame>) : null;
+    if (!game || typeof game.id !== "string") return null;
+    return { id: game.id, puzzleId: typeof game.puzzleId === "string" ? game.puzzleId : undefined };
+  } catch {
+    return null;
+  }
+}
+
+function getMultiBoardGameKey(variant: MultiBoardVariantId) {
+  return `${MULTI_BOARD_ACTIVE_GAME_STORAGE_KEY}/${variant}`;
+}
+
+/** Multi-board games are saved per variant, so a Dordle in progress survives a Quordle. */
+export function saveMultiBoardGame(storage: ActiveGameStorage, game: MultiBoardGame) {
+  writeStorage(storage, getMultiBoardGameKey(game.variant), JSON.stringify(game));
+}
+
+export function clearMultiBoardGame(storage: ActiveGameStorage, variant: MultiBoardVariantId) {
+  removeStorage(storage, getMultiBoardGameKey(variant));
+}
+
+/** Returns `null` for missing, corrupt or already-finished games, like `loadActiveGame`. */
+export function loadMultiBoardGame(
+  storage: ActiveGameStorage,
+  variant: MultiBoardVariantId,
+): MultiBoardGame | null {
+  try {
+    const stored = storage.getItem(getMultiBoardGameKey(variant));
+    const game = stored ? normalizeMultiBoardGame(JSON.parse(stored)) : null;
+    return game?.variant === variant && getMultiBoardStatus(game) === "playing" ? game : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  AdversarialGame,
+  chooseAdversarialBucket,
+  createAdversarialGame,
+  getAdversarialSolution,
+  playAdversarialGuess,
+} from "./adversary";
+
+function gameWith(candidates: string[], maxGuesses = 6): AdversarialGame {
+  return {
+    config: { wordLength: 5, maxGuesses },
+    candidates,
+    rows: [],
+    status: "playing",
+  };
+}
+
+describe("chooseAdversarialBucket", () => {
+  // Every case guesses CRANE.
+  it.each([
+    {
+      rule: "keeps the most words alive",
+      candidates: ["cider", "bumpy", "dolly", "fuzzy"],
+      bucket: { key: "aaaaa", words: ["bumpy", "dolly", "fuzzy"] },
+    },
+    {
+      rule: "won't concede the win while another word is left",
+      candidates: ["crane", "cider"],
+      bucket: { key: "cpaap", words: ["cider"] },
+    },
+    {
+      rule: "gives away as few greens as it can",
+      candidates: ["brace", "cloud"],
+      bucket: { key: "caaaa", words: ["cloud"] },
+    },
+    {
+      rule: "then as few yellows",
+      candidates: ["spelt", "bumpy"],
+      bucket: { key: "aaaaa", words: ["bumpy"] },
+    },
+    {
+      rule: "breaks remaining ties by key, so replays repeat",
+      candidates: ["lupin", "spelt"],
+      bucket: { key: "aaaap", words: ["spelt"] },
+    },
+    {
+      rule: "concedes once the guess is all that's left",
+      candidates: ["crane"],
+      bucket: { key: "ccccc", words: ["crane"] },
+    },
+  ])("$rule", ({ candidates, bucket }) => {
+    expect(chooseAdversarialBucket("crane", candidates)).toEqual(bucket);
+    expect(chooseAdversarialBucket("crane", [...candidates].reverse()).key).toBe(bucket.key);
+  });
+});
+
+describe("playAdversarialGuess", () => {
+  it("narrows the answers without committing to one", () => {
+    const game = playAdversarialGuess(createAdversarialGame(), "crane");
+    expect(game.status).toBe("playing");
+    expect(game.rows).toHaveLength(1);
+    expect(game.candidates.length).toBeGreaterThan(1);
+    expect(getAdversarialSolution(game)).toBeNull();
+  });
+
+  it("is only won by naming the last word left", () => {
+    const cornered = playAdversarialGuess(gameWith(["crane", "cider"]), "crane");
+    expect(cornered).toMatchObject({ status: "playing", candidates: ["cider"] });
+
+    const won = playAdversarialGuess(cornered, "cider");
+    expect(won.status).toBe("won");
+    expect(getAdversarialSolution(won)).toBe("cider");
+    expect(playAdversarialGuess(won, "crane")).toBe(won);
+  });
+
+  it("reveals a word still in play when the rows run out", () => {
+    const lost = playAdversarialGuess(gameWith(["bumpy", "dolly", "fuzzy"], 1), "crane");
+    expect(lost.status).toBe("lost");
+    expect(getAdversarialSolution(lost)).toBe("bumpy");
+  });
+});
@@ -0,0 +1,98 @@
+import { DEFAULT_GAME_CONFIG, GameConfig, LetterEvaluation, evaluateGuess } from "./wordle";
+import { MAX_GUESS_LIMIT, getWordBank } from "./word-bank";
+import { partitionCandidates } from "./solver";
+
+export type AdversarialStatus = "playing" | "won" | "lost";
+
+/**
+ * An Absurdle-style game: there is no solution, only the set of answers still consistent with
+ * every row so far. Each guess is one pass of `partitionCandidates` over that set, a few
+ * thousand `evaluateGuess` calls at most, so it answers instantly on the main thread.
+ */
+export interface AdversarialGame {
+  config: GameConfig;
+  candidates: readonly string[];
+  rows: LetterEvaluation[][];
+  status: AdversarialStatus;
+}
+
+export interface FeedbackBucket {
+  /** Feedback key as produced by `getFeedbackKey`, one state initial per letter. */
+  key: string;
+  words: string[];
+}
+
+// With the word dodging every guess, the usual six rows are rarely enough.
+export const ADVERSARIAL_GAME_CONFIG: GameConfig = {
+  wordLength: DEFAULT_GAME_CONFIG.wordLength,
+  maxGuesses: MAX_GUESS_LIMIT,
+};
+
+export function createAdversarialGame(
+  config: GameConfig = ADVERSARIAL_GAME_CONFIG,
+): AdversarialGame {
+  return {
+    config,
+    candidates: getWordBank(config.wordLength).answers,
+    rows: [],
+    status: "playing",
+  };
+}
+
+function countStates(key: string, state: "c" | "p") {
+  return key.split("").filter((entry) => entry === state).length;
+}
+
+/**
+ * Orders buckets from most to least attractive for the adversary: keep the most words alive,
+ * never concede the win while anything else is left, then give away as few greens and
+ * yellows as possible. The key breaks any remaining tie so replays are deterministic.
+ */
+function compareBuckets(a: FeedbackBucket, b: FeedbackBucket, winningKey: string): number {
+  return (
+    b.words.length - a.words.length ||
+    Number(a.key === winningKey) - Number(b.key === winningKey) ||
+    countStates(a.key, "c") - countStates(b.key, "c") ||
+    countStates(a.key, "p") - countStates(b.key, "p") ||
+    a.key.localeCompare(b.key)
+  );
+}
+
+/** The feedback bucket the adversary answers `guess` with. */
+export function chooseAdversarialBucket(
+  guess: string,
+  candidates: readonly string[],
+): FeedbackBucket {
+  const winningKey = "c".repeat(guess.length);
+  const buckets = [...partitionCandidates(guess, candidates)].map(([key, words]) => ({
+    key,
+    words,
+  }));
+  return buckets.sort((a, b) => compareBuckets(a, b, winningKey))[0];
+}
+
+/**
+ * Answers a guess with the pattern that keeps the largest set of answers alive. The game only
+ * commits to a word once a single one remains and the player names it.
+ */
+export function playAdversarialGuess(game: AdversarialGame, guess: string): AdversarialGame {
+  if (game.status !== "playing" || game.candidates.length === 0) return game;
+
+  const bucket = chooseAdversarialBucket(guess, game.candidates);
+  const result = evaluateGuess(guess, bucket.words[0]);
+  const rows = [...game.rows, result.letters];
+  const status = result.isCorrect
+    ? "won"
+    : rows.length >= game.config.maxGuesses
+      ? "lost"
+      : "playing";
+  return { ...game, candidates: bucket.words, rows, status };
+}
+
+/**
+ * The word the game ended on. A loss forces the adversary to commit, so it reveals the first
+ * of the words the player never pinned down.
+ */
+export function getAdversarialSolution(game: AdversarialGame): string | null {
+  return game.status === "playing" ? null : (game.candidates[0] ?? null);
+}
@@ -0,0 +1,54 @@
+import { DEFAULT_GAME_CONFIG, GameConfig, LetterEvaluation, isCommittedRow } from "./wordle";
+import {
+  GuessSuggestion,
+  filterCandidates,
+  getCandidateSolutions,
+  getHint,
+  scoreGuess,
+} from "./solver";
+
+export interface GuessAnalysis {
+  guess: string;
+  candidatesBefore: number;
+  candidatesAfter: number;
+  /** Information actually earned: log2 of how much the candidate set shrank. */
+  bitsEarned: number;
+  /** Information this guess was expected to earn before its feedback was known. */
+  expectedBits: number;
+  /** The solver's top pick for this turn, or `null` when nothing was left to choose from. */
+  bestAlternative: GuessSuggestion | null;
+  /** False when the guess contradicts feedback from an earlier row. */
+  wasPossible: boolean;
+}
+
+/**
+ * Replays the committed rows of a finished board and grades each guess against the solver.
+ */
+export function analyzeGame(
+  board: LetterEvaluation[][],
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+): GuessAnalysis[] {
+  const rows = board.filter(isCommittedRow);
+  let candidates = getCandidateSolutions([], config);
+
+  return rows.map((row, rowIndex) => {
+    const guess = row.map((entry) => entry.letter).join("");
+    const history = rows.slice(0, rowIndex);
+    const after = filterCandidates(candidates, [row]);
+    const [bestAlternative = null] = getHint(history, { config, limit: 1 }).suggestions;
+
+    const analysis: GuessAnalysis = {
+      guess,
+      candidatesBefore: candidates.length,
+      candidatesAfter: after.length,
+      bitsEarned:
+        candidates.length > 0 && after.length > 0 ? Math.log2(candidates.length / after.length) : 0,
+      expectedBits: scoreGuess(guess, candidates).entropy,
+      bestAlternative,
+      wasPossible: filterCandidates([guess], history).length === 1,
+    };
+
+    candidates = after;
+    return analysis;
+  });
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  GuessStrategy,
+  createEntropyStrategy,
+  createFrequencyStrategy,
+  createRandomStrategy,
+  runBenchmark,
+  toBenchmarkCsv,
+} from "./benchmark";
+import { createSeededRandom } from "./puzzle";
+import { getFeedbackKey } from "./solver";
+import { PRACTICE_WORDS } from "./word-bank";
+
+const solutions = PRACTICE_WORDS.slice(0, 40);
+
+describe("runBenchmark", () => {
+  it("tallies guesses, failures and the worst words", () => {
+    // Walks the candidate list in order, so a word takes as long as its place in the list.
+    const firstCandidate: GuessStrategy = {
+      id: "first",
+      label: "First candidate",
+      nextGuess: (_history, candidates) => candidates[0],
+    };
+    const result = runBenchmark(firstCandidate, { solutions, guessLimit: 8 });
+
+    expect(result.games).toBe(solutions.length);
+    expect(result.distribution).toHaveLength(8);
+    expect(result.distribution.reduce((sum, count) => sum + count, 0)).toBe(
+      result.games - result.unsolved,
+    );
+    expect(result.wins + result.failures).toBe(result.games);
+    expect(result.worst[0].guesses.length).toBeGreaterThanOrEqual(
+      Math.max(...result.records.map((record) => record.guesses.length)),
+    );
+    for (const record of result.records.filter((entry) => entry.solved)) {
+      expect(record.guesses.at(-1)).toBe(record.solution);
+    }
+  });
+
+  it("forces the opener and rejects made-up guesses", () => {
+    const result = runBenchmark(createFrequencyStrategy(), { solutions, opener: "crane" });
+    expect(result.opener).toBe("crane");
+    expect(result.records.every((record) => record.guesses[0] === "crane")).toBe(true);
+
+    const cheat: GuessStrategy = { id: "cheat", label: "Cheat", nextGuess: () => "zzzzz" };
+    expect(() => runBenchmark(cheat, { solutions })).toThrow(/zzzzz/);
+  });
+
+  it("has the random strategy guess only words that fit the feedback so far", () => {
+    const result = runBenchmark(createRandomStrategy(createSeededRandom(3)), { solutions });
+    for (const { solution, guesses } of result.records) {
+      guesses.forEach((guess, index) => {
+        for (const previous of guesses.slice(0, index)) {
+          expect(getFeedbackKey(previous, guess)).toBe(getFeedbackKey(previous, solution));
+        }
+      });
+    }
+  });
+
+  // Ranking the opener alone takes a few seconds on a slow machine.
+  it("keeps the entropy solver inside the guess limit", () => {
+    const result = runBenchmark(createEntropyStrategy(), { solutions });
+    expect(result.failures).toBe(0);
+    expect(result.meanGuesses).toBeLessThan(4);
+  }, 20_000);
+
+  it("writes one CSV row per game", () => {
+    const result = runBenchmark(createFrequencyStrategy(), { solutions: solutions.slice(0, 3) });
+    const lines = toBenchmarkCsv([result]).trim().split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toMatch(new RegExp(`^frequency,,${solutions[0]},true,\\d+,`));
+  });
+});
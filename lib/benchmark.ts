@@ -0,0 +1,220 @@
+import { DEFAULT_GAME_CONFIG, GameConfig, LetterEvaluation, evaluateGuess } from "./wordle";
+import { MAX_GUESS_LIMIT, PRACTICE_WORDS, getWordBank } from "./word-bank";
+import { RandomSource } from "./puzzle";
+import { getFeedbackKey, rankGuesses } from "./solver";
+import { getRowWord } from "./game-engine";
+
+/**
+ * A way of playing Wordle: given the feedback so far and the solutions still consistent with
+ * it, name the next guess. Strategies may keep state between calls, e.g. a cache.
+ */
+export interface GuessStrategy {
+  id: string;
+  label: string;
+  nextGuess: (history: LetterEvaluation[][], candidates: readonly string[]) => string;
+}
+
+export interface BenchmarkOptions {
+  config?: GameConfig;
+  /** Defaults to every word in `PRACTICE_WORDS`, or the solutions for other lengths. */
+  solutions?: readonly string[];
+  /** Forces the first guess, so openers can be compared under the same strategy. */
+  opener?: string;
+  /** Games keep going past `config.maxGuesses` up to here, so a miss still has a length. */
+  guessLimit?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface SolveRecord {
+  solution: string;
+  guesses: string[];
+  solved: boolean;
+}
+
+export interface BenchmarkResult {
+  strategy: string;
+  opener: string | null;
+  games: number;
+  /** Games solved within `config.maxGuesses`. */
+  wins: number;
+  /** Games not solved within `config.maxGuesses`, however many guesses they went on to take. */
+  failures: number;
+  /** Over every game solved within `guessLimit`. */
+  meanGuesses: number;
+  /** Games solved in 1, 2, … `guessLimit` guesses; games never solved aren't counted. */
+  distribution: number[];
+  unsolved: number;
+  /** The longest games, unsolved ones first. */
+  worst: SolveRecord[];
+  records: SolveRecord[];
+  durationMs: number;
+}
+
+const WORST_CASE_COUNT = 10;
+
+function getHistoryKey(history: LetterEvaluation[][]): string {
+  return history
+    .map((row) => row.map((entry) => `${entry.letter}${entry.state[0]}`).join(""))
+    .join("|");
+}
+
+/** Any word that could still be the answer, picked at random; the floor to beat. */
+export function createRandomStrategy(random: RandomSource = Math.random): GuessStrategy {
+  return {
+    id: "random",
+    label: "Random candidate",
+    nextGuess: (_history, candidates) => candidates[Math.floor(random() * candidates.length)],
+  };
+}
+
+/**
+ * The candidate whose letters are most common among the remaining candidates, counting each
+ * letter once per word, plus a bonus for letters in their most common positions.
+ */
+export function createFrequencyStrategy(): GuessStrategy {
+  const scoreCandidates = (candidates: readonly string[]) => {
+    const letterCounts: Record<string, number> = {};
+    const positionCounts: Record<string, number>[] = [];
+    for (const word of candidates) {
+      for (const letter of new Set(word)) letterCounts[letter] = (letterCounts[letter] ?? 0) + 1;
+      [...word].forEach((letter, index) => {
+        positionCounts[index] ??= {};
+        positionCounts[index][letter] = (positionCounts[index][letter] ?? 0) + 1;
+      });
+    }
+    return (word: string) =>
+      [...new Set(word)].reduce((score, letter) => score + letterCounts[letter], 0) +
+      [...word].reduce((score, letter, index) => score + positionCounts[index][letter], 0);
+  };
+
+  return {
+    id: "frequency",
+    label: "Letter frequency",
+    nextGuess: (_history, candidates) => {
+      const score = scoreCandidates(candidates);
+      return candidates.reduce((best, word) => (score(word) > score(best) ? word : best));
+    },
+  };
+}
+
+/**
+ * The solver's top hint, which maximizes expected information. Every solution that shares
+ * a history shares the ranking, so each one is computed once per run.
+ */
+export function createEntropyStrategy(config: GameConfig = DEFAULT_GAME_CONFIG): GuessStrategy {
+  const cache = new Map<string, string>();
+  return {
+    id: "entropy",
+    label: "Entropy",
+    nextGuess: (history, candidates) => {
+      const key = getHistoryKey(history);
+      let guess = cache.get(key);
+      if (!guess) {
+        guess = rankGuesses(candidates, history, { config, limit: 1 })[0].word;
+        cache.set(key, guess);
+      }
+      return guess;
+    },
+  };
+}
+
+export const STRATEGY_FACTORIES: Record<string, (random: RandomSource) => GuessStrategy> = {
+  random: (random) => createRandomStrategy(random),
+  frequency: () => createFrequencyStrategy(),
+  entropy: () => createEntropyStrategy(),
+};
+
+/**
+ * Plays `strategy` against every solution and summarizes how it did. Guesses are checked
+ * against the word list, so a strategy that makes up words fails loudly rather than scoring.
+ */
+export function runBenchmark(
+  strategy: GuessStrategy,
+  {
+    config = DEFAULT_GAME_CONFIG,
+    solutions = config.wordLength === DEFAULT_GAME_CONFIG.wordLength
+      ? PRACTICE_WORDS
+      : getWordBank(config.wordLength).answers,
+    opener,
+    guessLimit = MAX_GUESS_LIMIT,
+    onProgress,
+  }: BenchmarkOptions = {},
+): BenchmarkResult {
+  const { valid, solutions: allSolutions } = getWordBank(config.wordLength);
+  const startedAt = Date.now();
+  const records: SolveRecord[] = [];
+
+  solutions.forEach((solution, index) => {
+    const history: LetterEvaluation[][] = [];
+    let candidates: readonly string[] = allSolutions;
+    let solved = false;
+    while (!solved && history.length < guessLimit) {
+      const guess =
+        history.length === 0 && opener ? opener : strategy.nextGuess(history, candidates);
+      if (!valid.has(guess)) {
+        throw new Error(`${strategy.id} guessed "${guess}", which isn't in the word list`);
+      }
+      const result = evaluateGuess(guess, solution);
+      history.push(result.letters);
+      solved = result.isCorrect;
+      const feedback = getFeedbackKey(guess, solution);
+      candidates = candidates.filter(
+        (candidate) => candidate !== guess && getFeedbackKey(guess, candidate) === feedback,
+      );
+    }
+    records.push({ solution, guesses: history.map(getRowWord), solved });
+    onProgress?.(index + 1, solutions.length);
+  });
+
+  const distribution = Array.from({ length: guessLimit }, () => 0);
+  let totalGuesses = 0;
+  for (const record of records) {
+    if (!record.solved) continue;
+    distribution[record.guesses.length - 1] += 1;
+    totalGuesses += record.guesses.length;
+  }
+  const solvedCount = records.filter((record) => record.solved).length;
+  const wins = distribution.slice(0, config.maxGuesses).reduce((sum, count) => sum + count, 0);
+  const worst = [...records]
+    .sort(
+      (a, b) =>
+        Number(a.solved) - Number(b.solved) ||
+        b.guesses.length - a.guesses.length ||
+        a.solution.localeCompare(b.solution),
+    )
+    .slice(0, WORST_CASE_COUNT);
+
+  return {
+    strategy: strategy.id,
+    opener: opener ?? null,
+    games: records.length,
+    wins,
+    failures: records.length - wins,
+    meanGuesses: solvedCount === 0 ? 0 : totalGuesses / solvedCount,
+    distribution,
+    unsolved: records.length - solvedCount,
+    worst,
+    records,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/** One row per game, with the guesses space-separated in the last column. */
+export function toBenchmarkCsv(results: BenchmarkResult[]): string {
+  const lines = ["strategy,opener,solution,solved,guess_count,guesses"];
+  for (const result of results) {
+    for (const record of result.records) {
+      lines.push(
+        [
+          result.strategy,
+          result.opener ?? "",
+          record.solution,
+          record.solved,
+          record.guesses.length,
+          record.guesses.join(" "),
+        ].join(","),
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
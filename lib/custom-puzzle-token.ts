@@ -0,0 +1,59 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { CustomPuzzle, normalizeCustomPuzzle } from "./custom-puzzle";
+
+// AES-GCM both hides the word from anyone glancing at the link and fails to open a link that
+// has been edited, as long as the key stays private. It comes from WORDLE_PUZZLE_SECRET, which
+// production must set. Development and tests get a random key instead, so their links stop
+// opening when the server restarts.
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// The random key lives on globalThis: the dev server gives the API route and the page their own
+// copy of this module, and both must open the same links.
+const globalForKey = globalThis as typeof globalThis & { __wordlePuzzleKey?: Buffer };
+
+let key: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (!key) {
+    const secret = process.env.WORDLE_PUZZLE_SECRET;
+    if (secret) {
+      key = createHash("sha256").update(secret).digest();
+    } else if (process.env.NODE_ENV === "production") {
+      throw new Error("WORDLE_PUZZLE_SECRET must be set to create or open custom puzzles");
+    } else {
+      key = globalForKey.__wordlePuzzleKey ??= randomBytes(32);
+    }
+  }
+  return key;
+}
+
+/** Packs a puzzle into a URL-safe token; only this server can open it again. */
+export function sealCustomPuzzle(puzzle: CustomPuzzle): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const payload = JSON.stringify([puzzle.word, puzzle.maxGuesses, puzzle.message]);
+  const sealed = Buffer.concat([cipher.update(payload, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString("base64url");
+}
+
+/** The puzzle behind a token, or `null` if it's garbled, edited or sealed under another key. */
+export function openCustomPuzzle(token: string): CustomPuzzle | null {
+  // Outside the try: a missing secret is a broken deployment, not a broken link.
+  const secretKey = getKey();
+  try {
+    const bytes = Buffer.from(token, "base64url");
+    if (bytes.length <= IV_BYTES + TAG_BYTES) return null;
+    const decipher = createDecipheriv(ALGORITHM, secretKey, bytes.subarray(0, IV_BYTES));
+    decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const payload = Buffer.concat([
+      decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString("utf8");
+    const [word, maxGuesses, message] = JSON.parse(payload) as [string, number, string | null];
+    return normalizeCustomPuzzle({ word, maxGuesses, message });
+  } catch {
+    return null;
+  }
+}
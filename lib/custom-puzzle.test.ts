@@ -0,0 +1,88 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { getCustomPuzzleError, normalizeCustomPuzzle } from "./custom-puzzle";
+import { openCustomPuzzle, sealCustomPuzzle } from "./custom-puzzle-token";
+import { loadGuessDictionary } from "./word-bank";
+
+const puzzle = { word: "pious", maxGuesses: 4, message: "Good luck ☕" };
+
+describe("custom puzzle links", () => {
+  it("round-trip without the word showing in the token", () => {
+    const token = sealCustomPuzzle(puzzle);
+    expect(token).toMatch(/^[\w-]+$/);
+    expect(token.toLowerCase()).not.toContain("pious");
+    expect(openCustomPuzzle(token)).toEqual(puzzle);
+  });
+
+  it("seal the same puzzle differently each time", () => {
+    expect(sealCustomPuzzle(puzzle)).not.toBe(sealCustomPuzzle(puzzle));
+  });
+
+  it("refuse tokens that were edited or made up", () => {
+    const token = sealCustomPuzzle(puzzle);
+    const flipped = `${token.slice(0, 20)}${token[20] === "A" ? "B" : "A"}${token.slice(21)}`;
+    expect(openCustomPuzzle(flipped)).toBeNull();
+    expect(openCustomPuzzle(token.slice(0, -2))).toBeNull();
+    expect(openCustomPuzzle("not-a-token")).toBeNull();
+    expect(openCustomPuzzle("")).toBeNull();
+  });
+});
+
+describe("the custom puzzle key", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function loadFreshToken() {
+    vi.resetModules();
+    return import("./custom-puzzle-token");
+  }
+
+  it("comes from WORDLE_PUZZLE_SECRET, so links survive a restart", async () => {
+    vi.stubEnv("WORDLE_PUZZLE_SECRET", "a secret only this deployment knows");
+    const token = (await loadFreshToken()).sealCustomPuzzle(puzzle);
+    expect((await loadFreshToken()).openCustomPuzzle(token)).toEqual(puzzle);
+
+    vi.stubEnv("WORDLE_PUZZLE_SECRET", "another deployment");
+    expect((await loadFreshToken()).openCustomPuzzle(token)).toBeNull();
+  });
+
+  it("is shared by every copy of the module when no secret is set outside production", async () => {
+    vi.stubEnv("WORDLE_PUZZLE_SECRET", "");
+    const token = (await loadFreshToken()).sealCustomPuzzle(puzzle);
+    expect((await loadFreshToken()).openCustomPuzzle(token)).toEqual(puzzle);
+  });
+
+  it("refuses to seal or open anything in production without a secret", async () => {
+    vi.stubEnv("WORDLE_PUZZLE_SECRET", "");
+    vi.stubEnv("NODE_ENV", "production");
+    const { openCustomPuzzle, sealCustomPuzzle } = await loadFreshToken();
+    expect(() => sealCustomPuzzle(puzzle)).toThrow(/WORDLE_PUZZLE_SECRET/);
+    expect(() => openCustomPuzzle("anything")).toThrow(/WORDLE_PUZZLE_SECRET/);
+  });
+});
+
+describe("normalizeCustomPuzzle", () => {
+  it("clamps the guess limit and trims the message", () => {
+    expect(
+      normalizeCustomPuzzle({ word: " CRANE ", maxGuesses: 99, message: `  ${"x".repeat(200)} ` }),
+    ).toEqual({ word: "crane", maxGuesses: 10, message: "x".repeat(140) });
+    expect(normalizeCustomPuzzle({ word: "crane", message: "   " })).toMatchObject({
+      maxGuesses: 6,
+      message: null,
+    });
+  });
+
+  it.each(["", "cr4ne", "ab", "abcdefgh"])("turns down %j", (word) => {
+    expect(normalizeCustomPuzzle({ word })).toBeNull();
+  });
+});
+
+describe("getCustomPuzzleError", () => {
+  beforeAll(() => loadGuessDictionary(5));
+
+  it("accepts any word from the guess list, not just answers", () => {
+    expect(getCustomPuzzleError({ word: "aahed" })).toBeNull();
+    expect(getCustomPuzzleError({ word: "zzzzz" })).toBe("Not in word list");
+    expect(getCustomPuzzleError({ word: "zz" })).toMatch(/^Pick a word/);
+  });
+});
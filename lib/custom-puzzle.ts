@@ -0,0 +1,52 @@
+import { GameConfig, isValidGuess, normalizeGameConfig, normalizeGuess } from "./wordle";
+import { DEFAULT_MAX_GUESSES, SUPPORTED_WORD_LENGTHS, isGuessDictionaryLoaded } from "./word-bank";
+
+export const MAX_CUSTOM_MESSAGE_LENGTH = 140;
+
+/** A word someone picked for a friend, with the guesses they allow and a note to go with it. */
+export interface CustomPuzzle {
+  word: string;
+  maxGuesses: number;
+  message: string | null;
+}
+
+export function getCustomGameConfig(puzzle: CustomPuzzle): GameConfig {
+  return normalizeGameConfig({ wordLength: puzzle.word.length, maxGuesses: puzzle.maxGuesses });
+}
+
+/**
+ * Coerces untrusted input into a puzzle of the right shape, or `null` if the word can't be one.
+ * The guess limit is clamped and the message trimmed rather than turned down.
+ */
+export function normalizeCustomPuzzle(
+  input: Partial<CustomPuzzle> | null | undefined,
+): CustomPuzzle | null {
+  const word = typeof input?.word === "string" ? normalizeGuess(input.word) : "";
+  if (!/^[a-z]+$/.test(word)) return null;
+  if (!SUPPORTED_WORD_LENGTHS.some((length) => length === word.length)) return null;
+
+  const message = typeof input?.message === "string" ? input.message.trim() : "";
+  return {
+    word,
+    maxGuesses: normalizeGameConfig({ maxGuesses: input?.maxGuesses ?? DEFAULT_MAX_GUESSES })
+      .maxGuesses,
+    message: message ? message.slice(0, MAX_CUSTOM_MESSAGE_LENGTH) : null,
+  };
+}
+
+/**
+ * Why a puzzle can't be created, or `null` if it can. Like `isValidGuess`, this only knows
+ * dictionary-only words once `loadGuessDictionary` has run for the word's length.
+ */
+export function getCustomPuzzleError(input: Partial<CustomPuzzle>): string | null {
+  const puzzle = normalizeCustomPuzzle(input);
+  if (!puzzle) return `Pick a word of ${SUPPORTED_WORD_LENGTHS.join(", ")} letters`;
+  if (!isValidGuess(puzzle.word, getCustomGameConfig(puzzle))) {
+    return isGuessDictionaryLoaded(puzzle.word.length) ? "Not in word list" : "Loading word list";
+  }
+  return null;
+}
+
+export function getCustomPuzzleUrl(token: string, origin: string): string {
+  return `${origin}/custom/${encodeURIComponent(token)}`;
+}
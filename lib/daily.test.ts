@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getDailyKey, getDailyPuzzle } from "./daily";
+import { getPuzzle } from "./puzzle";
+
+function onDay(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return getDailyPuzzle(new Date(year, month - 1, day));
+}
+
+describe("getDailyPuzzle", () => {
+  // Published words: these must never change, whatever happens to the word lists.
+  it.each([
+    ["2024-01-01", "total", "0vsikp2"],
+    ["2025-06-15", "wheat", "1e8b4d1"],
+    ["2026-10-19", "focus", "1y16hze"],
+    ["2030-02-28", "grasp", "0b6yakw"],
+  ])("gives %s the word %s", (key, solution, id) => {
+    expect(onDay(key)).toEqual({ id, solution });
+    expect(getPuzzle(id)?.solution).toBe(solution);
+  });
+
+  it("doesn't repeat a word within a year", () => {
+    const words = Array.from(
+      { length: 365 },
+      (_, offset) => getDailyPuzzle(new Date(2026, 0, 1 + offset)).solution,
+    );
+    expect(new Set(words).size).toBe(365);
+  });
+
+  it("borrows a later day's word when its own has been retired", () => {
+    expect(onDay("2026-01-20").solution).toBe("honey");
+    expect(onDay("2027-01-22").solution).toBe("honey");
+  });
+
+  it("flips at local midnight", () => {
+    const lateNight = new Date(2026, 9, 19, 23, 59);
+    expect(getDailyKey(lateNight)).toBe("2026-10-19");
+    expect(getDailyPuzzle(lateNight)).toEqual(onDay("2026-10-19"));
+    expect(getDailyPuzzle(new Date(2026, 9, 20, 0, 1))).not.toEqual(onDay("2026-10-19"));
+  });
+});
@@ -0,0 +1,77 @@
+import { DEFAULT_GAME_CONFIG } from "./wordle";
+import { getWordBank } from "./word-bank";
+import { Puzzle, createSeededRandom, encodePuzzleId } from "./puzzle";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The daily rotation is the first DAILY_SLOT_COUNT slots of the 5-letter solution list,
+// shuffled once with a fixed seed. Both numbers are frozen: the list only ever grows, so this
+// keeps every past and future daily word where it is. Words appended later aren't in the
+// rotation, and changing either constant would reshuffle it.
+const DAILY_SLOT_COUNT = 1475;
+const DAILY_SHUFFLE_SEED = 0x0d417;
+// A day whose word has been retired borrows the word from about a year further on.
+const RETIRED_DAY_STRIDE = 367;
+
+let dailyOrder: number[] | null = null;
+
+function getDailyOrder(): number[] {
+  if (!dailyOrder) {
+    const random = createSeededRandom(DAILY_SHUFFLE_SEED);
+    const order = Array.from({ length: DAILY_SLOT_COUNT }, (_, index) => index);
+    for (let index = order.length - 1; index > 0; index -= 1) {
+      const swap = Math.floor(random() * (index + 1));
+      [order[index], order[swap]] = [order[swap], order[index]];
+    }
+    dailyOrder = order;
+  }
+  return dailyOrder;
+}
+
+/** Local calendar date as `YYYY-MM-DD`, so the daily word flips at the player's midnight. */
+export function getDailyKey(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function getDayNumber(dailyKey: string): number {
+  const [year, month, day] = dailyKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+export function getPreviousDailyKey(dailyKey: string): string {
+  const [year, month, day] = dailyKey.split("-").map(Number);
+  return getDailyKey(new Date(year, month - 1, day - 1));
+}
+
+/**
+ * Everyone playing on the same calendar date gets the same word, and no word comes back until
+ * the rotation has gone all the way round.
+ */
+export function getDailyPuzzle(date: Date = new Date()): Puzzle {
+  const { wordLength } = DEFAULT_GAME_CONFIG;
+  const { solutions } = getWordBank(wordLength);
+  const order = getDailyOrder();
+  const day = getDayNumber(getDailyKey(date));
+  for (let step = 0; step < order.length; step += 1) {
+    const index = order[(day + step * RETIRED_DAY_STRIDE) % order.length];
+    if (solutions[index])
+      return { id: encodePuzzleId(wordLength, index), solution: solutions[index] };
+  }
+  throw new Error("Every daily word has been retired");
+}
+
+export function getMsUntilNextDaily(now: Date = new Date()): number {
+  const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return Math.max(0, nextMidnight.getTime() - now.getTime());
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => String(part).padStart(2, "0")).join(":");
+}
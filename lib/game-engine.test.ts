@@ -0,0 +1,308 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  GameAction,
+  GameState,
+  HIDDEN_PUZZLE,
+  advanceRun,
+  createFinishedEntry,
+  createGameState,
+  getGameBoard,
+  getGameKeyboard,
+  getGameOverMessage,
+  getGuessWords,
+  getNextGame,
+  getNextReviewGame,
+  getRowWord,
+  getSessionSync,
+  planGuess,
+  recordFinishedGame,
+  reduceGame,
+  replayFinishedGame,
+  resumeActiveGame,
+  toActiveGame,
+} from "./game-engine";
+import type { PublicGameSession } from "./game-session";
+import { ReviewCard, createEmptyReviewQueue } from "./review";
+import { createEmptyStatsStore } from "./stats";
+import { TIMER_SETTINGS, getTimerSetting } from "./timer";
+import { loadGuessDictionary } from "./word-bank";
+
+const puzzle = { id: "test", solution: "crane" };
+
+function play(state: GameState, ...actions: GameAction[]) {
+  return actions.reduce(reduceGame, state);
+}
+
+function typeWord(word: string): GameAction[] {
+  return [...word].map((letter) => ({ type: "type-letter", letter }));
+}
+
+describe("reduceGame", () => {
+  beforeAll(() => loadGuessDictionary(5));
+
+  it("builds the pending guess from letters and backspaces", () => {
+    const state = play(createGameState(puzzle), ...typeWord("slatex"), { type: "backspace" });
+    expect(state.currentGuess).toBe("slat");
+    expect(getRowWord(getGameBoard(state)[0])).toBe("slat");
+  });
+
+  it("sanitizes a pasted guess", () => {
+    const state = play(createGameState(puzzle), { type: "set-guess", value: "Sl4te!!s" });
+    expect(state.currentGuess).toBe("sltes");
+  });
+
+  it.each([
+    { guess: "cra", error: "Not enough letters" },
+    { guess: "zzzzz", error: "Not in word list" },
+  ])("turns down $guess with an error the next action clears", ({ guess, error }) => {
+    const rejected = play(createGameState(puzzle), ...typeWord(guess), { type: "submit" });
+    expect(rejected.error).toBe(error);
+    expect(rejected.rows).toHaveLength(0);
+    expect(play(rejected, { type: "backspace" }).error).toBeNull();
+  });
+
+  it("asks the player to wait for a dictionary that hasn't loaded yet", async () => {
+    // A fresh copy of the modules has no dictionaries loaded, unlike the ones above.
+    vi.resetModules();
+    const fresh = await import("./game-engine");
+    const pending = fresh.reduceGame(fresh.createGameState(puzzle), {
+      type: "set-guess",
+      value: "aahed",
+    });
+    const rejected = fresh.reduceGame(pending, { type: "submit" });
+    expect(rejected.error).toBe("Loading word list");
+    expect(rejected.rows).toHaveLength(0);
+  });
+
+  it("enforces hard mode against earlier rows", () => {
+    const state = play(
+      createGameState(puzzle, undefined, { hardMode: true }),
+      ...typeWord("slate"),
+      { type: "submit" },
+      ...typeWord("pious"),
+      { type: "submit" },
+    );
+    expect(state.error).toBe("3rd letter must be A");
+    expect(play(state, { type: "set-hard-mode", hardMode: false }).hardMode).toBe(true);
+  });
+
+  it("wins, derives the keyboard and ignores input afterwards", () => {
+    const state = play(
+      createGameState(puzzle),
+      ...typeWord("slate"),
+      { type: "submit" },
+      ...typeWord("crane"),
+      { type: "submit" },
+      ...typeWord("abc"),
+    );
+    expect(state.status).toBe("won");
+    expect(getGuessWords(state)).toEqual(["slate", "crane"]);
+    expect(state.currentGuess).toBe("");
+    expect(getGameKeyboard(state)).toMatchObject({ S: "absent", A: "correct", C: "correct" });
+  });
+
+  it("loses after the last row or on resign", () => {
+    const config = { wordLength: 5, maxGuesses: 3 };
+    const guesses = ["slate", "pious", "dough"];
+    const state = createGameState(puzzle, config, { guesses });
+    expect(state.status).toBe("lost");
+    expect(getGameBoard(state)).toHaveLength(3);
+
+    const resigned = play(createGameState(puzzle, config, { guesses: ["slate"] }), {
+      type: "resign",
+    });
+    expect(resigned.status).toBe("lost");
+    expect(resigned.rows).toHaveLength(1);
+  });
+
+  it("keeps hard mode and config across a new game unless told otherwise", () => {
+    const config = { wordLength: 4, maxGuesses: 8 };
+    const state = play(createGameState(puzzle, config, { hardMode: true, guesses: ["slate"] }), {
+      type: "new-game",
+      puzzle: { id: "next", solution: "bird" },
+    });
+    expect(state).toMatchObject({ config, hardMode: true, rows: [], status: "playing" });
+  });
+
+  it("takes rows and the revealed word from a sync", () => {
+    const hidden = createGameState({ id: "", solution: "" });
+    const rows = [createGameState(puzzle, undefined, { guesses: ["slate"] }).rows[0]];
+    const synced = play(hidden, ...typeWord("slate"), {
+      type: "sync",
+      config: hidden.config,
+      rows,
+      status: "playing",
+    });
+    expect(synced.rows).toEqual(rows);
+    expect(synced.currentGuess).toBe("");
+    expect(JSON.parse(JSON.stringify(synced))).toEqual(synced);
+  });
+});
+
+describe("game lifecycle", () => {
+  beforeAll(() => loadGuessDictionary(5));
+
+  it("plans a local guess by scoring it", () => {
+    const plan = planGuess(createGameState(puzzle), { guess: "crane" });
+    expect(plan.kind).toBe("played");
+    expect(plan.kind === "played" && plan.state.status).toBe("won");
+  });
+
+  it("plans a server guess without the word list but with hard mode", () => {
+    const hidden = createGameState({ id: "", solution: "" });
+    expect(planGuess(hidden, { guess: "ZZZZZ", remote: true })).toEqual({
+      kind: "send",
+      guess: "zzzzz",
+    });
+    expect(planGuess(hidden, { guess: "zz", remote: true })).toEqual({
+      kind: "rejected",
+      error: "Not enough letters",
+    });
+
+    const hard = createGameState(puzzle, undefined, { hardMode: true, guesses: ["slate"] });
+    expect(planGuess(hard, { guess: "pious", remote: true })).toEqual({
+      kind: "rejected",
+      error: "3rd letter must be A",
+    });
+  });
+
+  it("syncs a finished server session, revealing its word", () => {
+    const scored = createGameState(puzzle, undefined, { guesses: ["slate", "crane"] });
+    const session: PublicGameSession = {
+      id: "session",
+      config: scored.config,
+      hardMode: true,
+      dailyKey: null,
+      rows: scored.rows,
+      status: "won",
+      solution: "crane",
+      puzzleId: "test",
+    };
+    const synced = reduceGame(createGameState({ id: "", solution: "" }), getSessionSync(session));
+    expect(synced).toMatchObject({ puzzle, hardMode: true, status: "won" });
+    expect(getGameOverMessage(synced)).toBe("Splendid!");
+  });
+
+  it("keeps the local hard mode choice until a server game has its first guess", () => {
+    const local = createGameState({ id: "", solution: "" }, undefined, { hardMode: true });
+    const action = getSessionSync({
+      id: "session",
+      config: local.config,
+      hardMode: false,
+      dailyKey: null,
+      rows: [],
+      status: "playing",
+      solution: null,
+      puzzleId: null,
+    });
+    expect(reduceGame(local, action)).toMatchObject({ hardMode: true, puzzle: local.puzzle });
+  });
+
+  it("saves and resumes an unfinished game", () => {
+    const state = createGameState(
+      puzzle,
+      { wordLength: 5, maxGuesses: 7 },
+      {
+        hardMode: true,
+        guesses: ["slate"],
+      },
+    );
+    const saved = toActiveGame(state, { elapsedMs: 1200, guessTimesMs: [1200] });
+    expect(saved).toMatchObject({ solution: "crane", puzzleId: "test", guesses: ["slate"] });
+    expect(resumeActiveGame(saved)).toEqual(state);
+  });
+
+  it("replays a resigned daily as lost without padding its rows", () => {
+    const replayed = replayFinishedGame(puzzle, { guesses: ["slate"], result: "lost" }, false);
+    expect(replayed).toMatchObject({ status: "lost", rows: [expect.any(Array)] });
+    expect(getGameOverMessage(replayed)).toBe("CRANE");
+  });
+
+  it("times every guess of a finished game, or none of a resumed one", () => {
+    const finished = createGameState(puzzle, undefined, { guesses: ["slate", "crane"] });
+    expect(
+      createFinishedEntry(finished, { durationMs: 9000, guessTimesMs: [4000], dailyKey: "d" }),
+    ).toMatchObject({
+      result: "won",
+      guesses: ["slate", "crane"],
+      puzzleId: "test",
+      mode: { dailyKey: "d", hardMode: false },
+      durationMs: 9000,
+      guessTimesMs: [4000, 9000],
+    });
+    expect(
+      createFinishedEntry(finished, { durationMs: 9000, guessTimesMs: [] }),
+    ).not.toHaveProperty("durationMs");
+  });
+
+  it("files a budget run once its last word is played", () => {
+    const timer = getTimerSetting("run-5");
+    const entry = createFinishedEntry(createGameState(puzzle, undefined, { guesses: ["crane"] }), {
+      durationMs: 30_000,
+      guessTimesMs: [],
+    });
+    const midRun = { played: 3, solved: 2, elapsedMs: 200_000, finished: false };
+
+    const ongoing = advanceRun(midRun, timer, true, 30_000);
+    expect(ongoing).toEqual({ played: 4, solved: 3, elapsedMs: 230_000, finished: false });
+    expect(
+      recordFinishedGame(createEmptyStatsStore(), entry, { timer, run: ongoing }).runs,
+    ).toEqual([]);
+
+    const done = advanceRun(ongoing, timer, false, 80_000);
+    expect(done.finished).toBe(true);
+    const store = recordFinishedGame(createEmptyStatsStore(), entry, { timer, run: done });
+    expect(store.history).toEqual([entry]);
+    expect(store.runs).toEqual([
+      expect.objectContaining({ settingId: "run-5", solved: 3, totalMs: timer.limitMs }),
+    ]);
+    expect(
+      recordFinishedGame(createEmptyStatsStore(), entry, { timer: TIMER_SETTINGS[0], run: null })
+        .runs,
+    ).toEqual([]);
+  });
+
+  it("serves the most overdue review word other than the one just played", () => {
+    const card = (word: string, dueAt: number): ReviewCard => ({
+      word,
+      easiness: 2.5,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt,
+    });
+    const queue = { ...createEmptyReviewQueue(), cards: [card("crane", 1), card("cider", 2)] };
+    const preferred = { wordLength: 4, maxGuesses: 8 };
+
+    expect(getNextReviewGame(queue, preferred)).toMatchObject({
+      puzzle: { solution: "crane" },
+      config: { wordLength: 5, maxGuesses: 8 },
+    });
+    expect(getNextReviewGame(queue, preferred, "crane").puzzle?.solution).toBe("cider");
+    expect(getNextReviewGame(createEmptyReviewQueue(), preferred)).toMatchObject({
+      puzzle: null,
+      config: { maxGuesses: 8 },
+    });
+  });
+
+  it("starts reviews on a due word and practice on a fresh pick", () => {
+    const queue = {
+      ...createEmptyReviewQueue(),
+      cards: [{ word: "cider", easiness: 2.5, interval: 0, repetitions: 0, lapses: 0, dueAt: 1 }],
+    };
+    const store = { ...createEmptyStatsStore(), review: queue };
+    const config = { wordLength: 5, maxGuesses: 6 };
+    const practice = { review: false, config, filter: "any" as const };
+
+    expect(getNextGame(store, { ...practice, review: true }).puzzle?.solution).toBe("cider");
+    expect(getNextGame(store, { ...practice, review: true, skip: "cider" }).puzzle).toBeNull();
+
+    const local = getNextGame(store, { ...practice, random: () => 0 });
+    expect(local.puzzle?.solution).toHaveLength(5);
+    expect(local.selection).toMatchObject({ filter: "any", review: { words: ["cider"] } });
+    expect(getNextGame(store, { ...practice, remote: true })).toMatchObject({
+      puzzle: HIDDEN_PUZZLE,
+      selection: local.selection,
+    });
+  });
+});
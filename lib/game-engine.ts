@@ -0,0 +1,450 @@
+import {
+  DEFAULT_GAME_CONFIG,
+  GameConfig,
+  KeyboardState,
+  LetterEvaluation,
+  evaluateGuess,
+  getEmptyBoard,
+  getHardModeViolation,
+  getKeyboardState,
+  isValidGuess,
+  normalizeGameConfig,
+  normalizeGuess,
+} from "./wordle";
+import { isGuessDictionaryLoaded } from "./word-bank";
+import { Puzzle, RandomSource, createRandomPuzzle, getPuzzleForSolution } from "./puzzle";
+import type { ActiveGame } from "./active-game";
+import type { PublicGameSession } from "./game-session";
+import { SelectionOptions, WordFilter, getRecentSolutions } from "./selection";
+import { ReviewQueue, getDueWords } from "./review";
+import {
+  GameHistoryEntry,
+  StatsStore,
+  createHistoryEntry,
+  recordGame,
+  recordTimedRun,
+} from "./stats";
+import type { TimerSetting } from "./timer";
+
+export type GameStatus = "playing" | "won" | "lost";
+
+/**
+ * One game of Wordle as plain data, so it can be saved, replayed or driven from outside React.
+ * The board and keyboard are derived from `rows`; see `getGameBoard` and `getGameKeyboard`.
+ */
+export interface GameState {
+  config: GameConfig;
+  /** Server games leave the solution blank until the server reveals it. */
+  puzzle: Puzzle;
+  hardMode: boolean;
+  rows: LetterEvaluation[][];
+  currentGuess: string;
+  status: GameStatus;
+  /** Why the last action was turned down, for the view to show; cleared by the next one. */
+  error: string | null;
+}
+
+export type GameAction =
+  | { type: "type-letter"; letter: string }
+  | { type: "backspace" }
+  /** Replaces the pending guess wholesale, as a text input does. */
+  | { type: "set-guess"; value: string }
+  | { type: "submit" }
+  | { type: "resign" }
+  | { type: "set-hard-mode"; hardMode: boolean }
+  | { type: "new-game"; puzzle: Puzzle; config?: GameConfig; hardMode?: boolean }
+  /** Rows scored elsewhere, i.e. by the game server, which alone knows the solution. */
+  | {
+      type: "sync";
+      config: GameConfig;
+      rows: LetterEvaluation[][];
+      status: GameStatus;
+      hardMode?: boolean;
+      puzzle?: Puzzle;
+    };
+
+export function getRowWord(row: LetterEvaluation[]): string {
+  return row.map((entry) => entry.letter).join("");
+}
+
+/** Keeps letters only, capped at the word length, the way both keyboards feed a guess. */
+function sanitizeGuess(value: string, config: GameConfig): string {
+  return value
+    .replace(/[^a-z]/gi, "")
+    .slice(0, config.wordLength)
+    .toLowerCase();
+}
+
+/**
+ * Starts a game, replaying any `guesses` already made against the puzzle. Guesses past the
+ * end of the game are dropped, so a finished game comes back finished.
+ */
+export function createGameState(
+  puzzle: Puzzle,
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  { hardMode = false, guesses = [] }: { hardMode?: boolean; guesses?: string[] } = {},
+): GameState {
+  let state: GameState = {
+    config,
+    puzzle,
+    hardMode,
+    rows: [],
+    currentGuess: "",
+    status: "playing",
+    error: null,
+  };
+  for (const guess of guesses) {
+    if (state.status !== "playing") break;
+    state = playGuess(state, normalizeGuess(guess));
+  }
+  return state;
+}
+
+/**
+ * The player-facing reason `state.currentGuess` can't be submitted, or `null` if it can.
+ * Server games skip the word list, since the server checks it against its own copy.
+ */
+export function getSubmitError(
+  state: GameState,
+  { checkWordList = true }: { checkWordList?: boolean } = {},
+): string | null {
+  const { config, currentGuess } = state;
+  if (currentGuess.length !== config.wordLength) return "Not enough letters";
+
+  const normalized = normalizeGuess(currentGuess);
+  if (checkWordList && !isValidGuess(normalized, config)) {
+    return isGuessDictionaryLoaded(config.wordLength) ? "Not in word list" : "Loading word list";
+  }
+  return state.hardMode ? getHardModeViolation(normalized, state.rows) : null;
+}
+
+function playGuess(state: GameState, guess: string): GameState {
+  const evaluation = evaluateGuess(guess, state.puzzle.solution);
+  const rows = [...state.rows, evaluation.letters];
+  const status = evaluation.isCorrect
+    ? "won"
+    : rows.length >= state.config.maxGuesses
+      ? "lost"
+      : "playing";
+  return { ...state, rows, currentGuess: "", status, error: null };
+}
+
+/**
+ * Applies one action. Actions that don't fit the game's current phase return it unchanged,
+ * or with `error` set when the player should be told why.
+ */
+export function reduceGame(state: GameState, action: GameAction): GameState {
+  const isPlaying = state.status === "playing";
+  const cleared = state.error === null ? state : { ...state, error: null };
+
+  switch (action.type) {
+    case "type-letter":
+      if (!isPlaying || state.currentGuess.length >= state.config.wordLength) return cleared;
+      return {
+        ...cleared,
+        currentGuess: sanitizeGuess(`${state.currentGuess}${action.letter}`, state.config),
+      };
+    case "backspace":
+      return isPlaying ? { ...cleared, currentGuess: state.currentGuess.slice(0, -1) } : cleared;
+    case "set-guess":
+      return {
+        ...cleared,
+        currentGuess: isPlaying ? sanitizeGuess(action.value, state.config) : "",
+      };
+    case "submit": {
+      if (!isPlaying) return cleared;
+      const error = getSubmitError(state);
+      return error ? { ...state, error } : playGuess(state, normalizeGuess(state.currentGuess));
+    }
+    case "resign":
+      return isPlaying ? { ...cleared, currentGuess: "", status: "lost" } : cleared;
+    case "set-hard-mode":
+      // A game never mixes rule sets, so hard mode is fixed once the first guess is in.
+      if (isPlaying && state.rows.length > 0) {
+        return { ...state, error: "Hard mode can only change at the start" };
+      }
+      return { ...cleared, hardMode: action.hardMode };
+    case "new-game":
+      return createGameState(action.puzzle, action.config ?? state.config, {
+        hardMode: action.hardMode ?? state.hardMode,
+      });
+    case "sync":
+      return {
+        ...cleared,
+        config: action.config,
+        rows: action.rows,
+        status: action.status,
+        currentGuess: action.rows.length === state.rows.length ? state.currentGuess : "",
+        hardMode: action.hardMode ?? state.hardMode,
+        puzzle: action.puzzle ?? state.puzzle,
+      };
+  }
+}
+
+export function getGuessWords(state: GameState): string[] {
+  return state.rows.map(getRowWord);
+}
+
+/** Every row of the grid: played rows, then the pending guess while playing, then blanks. */
+export function getGameBoard(state: GameState): LetterEvaluation[][] {
+  const board = getEmptyBoard(state.config);
+  state.rows.forEach((row, index) => {
+    board[index] = row;
+  });
+  const activeRow = state.rows.length;
+  if (state.status === "playing" && activeRow < board.length) {
+    board[activeRow] = board[activeRow].map((cell, index) => ({
+      letter: state.currentGuess[index] ?? "",
+      state: cell.state,
+    }));
+  }
+  return board;
+}
+
+export function getGameKeyboard(state: GameState): KeyboardState {
+  return getKeyboardState(state.rows);
+}
+
+// Everything below runs a game's life around the reducer: what a submit should do, how a
+// server session maps onto local state, what a finished game files into the stats, and which
+// game comes next. The view supplies clocks, storage and the network; the decisions live here.
+
+/** Server games don't know their word until the server reveals it at the end. */
+export const HIDDEN_PUZZLE: Puzzle = { id: "", solution: "" };
+
+export type GuessPlan =
+  | { kind: "rejected"; error: string }
+  /** A server game's guess, checked as far as the client can and ready to send. */
+  | { kind: "send"; guess: string }
+  /** A local game's guess, already scored. */
+  | { kind: "played"; state: GameState };
+
+/**
+ * Works out what submitting does. `guess` stands in for the pending guess, as the auto-filled
+ * opener does. Server games skip the word list and leave scoring to the server.
+ */
+export function planGuess(
+  state: GameState,
+  { guess, remote = false }: { guess?: string; remote?: boolean } = {},
+): GuessPlan {
+  const pending =
+    guess === undefined ? state : reduceGame(state, { type: "set-guess", value: guess });
+  if (remote) {
+    const error = getSubmitError(pending, { checkWordList: false });
+    return error
+      ? { kind: "rejected", error }
+      : { kind: "send", guess: normalizeGuess(pending.currentGuess) };
+  }
+  const next = reduceGame(pending, { type: "submit" });
+  return next.error ? { kind: "rejected", error: next.error } : { kind: "played", state: next };
+}
+
+/** The word and puzzle ID a server session gives away once it's over. */
+export function getRevealedPuzzle(session: PublicGameSession): Puzzle {
+  return { id: session.puzzleId ?? "", solution: session.solution ?? "" };
+}
+
+/** The `sync` action that brings the local game in line with the server's copy of it. */
+export function getSessionSync(session: PublicGameSession): GameAction {
+  return {
+    type: "sync",
+    config: session.config,
+    rows: session.rows,
+    status: session.status,
+    // Until the first guess the local preference wins; it's sent along with that guess.
+    hardMode: session.rows.length > 0 ? session.hardMode : undefined,
+    puzzle: session.status === "playing" ? undefined : getRevealedPuzzle(session),
+  };
+}
+
+export function getGameOverMessage(state: GameState): string {
+  return state.status === "won" ? "Splendid!" : state.puzzle.solution.toUpperCase();
+}
+
+/** What to save so an unfinished game survives a reload, clock included. */
+export function toActiveGame(
+  state: GameState,
+  { elapsedMs, guessTimesMs }: { elapsedMs: number; guessTimesMs: number[] },
+): ActiveGame {
+  return {
+    solution: state.puzzle.solution,
+    config: state.config,
+    hardMode: state.hardMode,
+    guesses: getGuessWords(state),
+    puzzleId: state.puzzle.id,
+    elapsedMs,
+    guessTimesMs,
+  };
+}
+
+/** Picks a saved game back up. Saves from before puzzle IDs get theirs from the word lists. */
+export function resumeActiveGame(saved: ActiveGame): GameState {
+  const puzzle = {
+    id: saved.puzzleId ?? getPuzzleForSolution(saved.solution)?.id ?? "",
+    solution: saved.solution,
+  };
+  return createGameState(puzzle, saved.config, {
+    hardMode: saved.hardMode,
+    guesses: saved.guesses,
+  });
+}
+
+/** Rebuilds a finished daily from its record; a resign can end one short of its last row. */
+export function replayFinishedGame(
+  puzzle: Puzzle,
+  { guesses, result }: { guesses: string[]; result: GameStatus },
+  hardMode: boolean,
+): GameState {
+  const game = createGameState(puzzle, DEFAULT_GAME_CONFIG, { hardMode, guesses });
+  return result === "lost" ? reduceGame(game, { type: "resign" }) : game;
+}
+
+/**
+ * The history entry for a game the engine has ended. Earlier guesses were timed as they went
+ * in and the last one is timed by `durationMs`; a game resumed without its timing leaves it out
+ * rather than record a partial time.
+ */
+export function createFinishedEntry(
+  state: GameState,
+  {
+    durationMs,
+    guessTimesMs,
+    dailyKey,
+  }: { durationMs: number; guessTimesMs: number[]; dailyKey?: string },
+): GameHistoryEntry {
+  const guesses = getGuessWords(state);
+  const times = [...guessTimesMs, durationMs].slice(0, guesses.length);
+  return createHistoryEntry(
+    state.puzzle.solution,
+    guesses,
+    state.status === "won",
+    { ...state.config, hardMode: state.hardMode, dailyKey },
+    state.puzzle.id,
+    times.length === guesses.length ? { durationMs, guessTimesMs: times } : undefined,
+  );
+}
+
+/** Progress through a budget run; `finished` once its words or its time are used up. */
+export interface RunProgress {
+  played: number;
+  solved: number;
+  elapsedMs: number;
+  finished: boolean;
+}
+
+export function advanceRun(
+  run: RunProgress | null,
+  timer: TimerSetting,
+  didWin: boolean,
+  durationMs: number,
+): RunProgress {
+  const played = (run?.played ?? 0) + 1;
+  const elapsedMs = (run?.elapsedMs ?? 0) + durationMs;
+  return {
+    played,
+    solved: (run?.solved ?? 0) + (didWin ? 1 : 0),
+    elapsedMs,
+    finished: played >= timer.words || elapsedMs >= timer.limitMs,
+  };
+}
+
+/** Files a finished game, plus the budget run it completed when `run` has just finished. */
+export function recordFinishedGame(
+  store: StatsStore,
+  entry: GameHistoryEntry,
+  { timer, run }: { timer: TimerSetting; run: RunProgress | null },
+): StatsStore {
+  const next = recordGame(store, entry);
+  if (!run?.finished) return next;
+  return recordTimedRun(next, {
+    id: entry.id,
+    settingId: timer.id,
+    words: timer.words,
+    solved: run.solved,
+    totalMs: Math.min(run.elapsedMs, timer.limitMs),
+    timestamp: entry.timestamp,
+  });
+}
+
+export function getReviewSelection(
+  queue: ReviewQueue,
+  wordLength: number,
+  now: number = Date.now(),
+): SelectionOptions["review"] {
+  return { words: getDueWords(queue, now, wordLength), rate: queue.mixRate };
+}
+
+/** How practice picks its next word: the word focus, recent solutions and due reviews. */
+export function getPracticeSelection(
+  { history, review }: Pick<StatsStore, "history" | "review">,
+  wordLength: number,
+  filter: WordFilter,
+): SelectionOptions {
+  return {
+    filter,
+    recent: getRecentSolutions(history, wordLength),
+    review: getReviewSelection(review, wordLength),
+  };
+}
+
+/**
+ * The next review game: the most overdue word other than `skip`, played at its own length with
+ * the player's guess limit. Words retired from the answers have no puzzle any more, so they're
+ * passed over; `puzzle` is `null` once nothing is due.
+ */
+export function getNextReviewGame(
+  queue: ReviewQueue,
+  preferred: GameConfig,
+  skip?: string,
+): { puzzle: Puzzle | null; config: GameConfig } {
+  let puzzle: Puzzle | null = null;
+  for (const word of getDueWords(queue)) {
+    if (word === skip) continue;
+    puzzle = getPuzzleForSolution(word);
+    if (puzzle) break;
+  }
+  return {
+    puzzle,
+    config: normalizeGameConfig({ ...preferred, wordLength: puzzle?.solution.length }),
+  };
+}
+
+export interface NextGame {
+  /** `null` when a review has nothing due; hidden when a server game picks the practice word. */
+  puzzle: Puzzle | null;
+  config: GameConfig;
+  /** How a practice word is picked, for a server game to pick by. */
+  selection?: SelectionOptions;
+}
+
+/**
+ * The word a new game starts on. Review plays the next due word, skipping `skip` (the word just
+ * played, which stats may not have filed yet); practice picks through the word focus, recent
+ * solutions and due reviews. `remote` leaves the practice pick to the server.
+ */
+export function getNextGame(
+  store: Pick<StatsStore, "history" | "review">,
+  {
+    review,
+    config,
+    filter = "any",
+    skip,
+    remote = false,
+    random,
+  }: {
+    review: boolean;
+    config: GameConfig;
+    filter?: WordFilter;
+    skip?: string;
+    remote?: boolean;
+    random?: RandomSource;
+  },
+): NextGame {
+  if (review) return getNextReviewGame(store.review, config, skip);
+  const selection = getPracticeSelection(store, config.wordLength, filter);
+  return {
+    puzzle: remote ? HIDDEN_PUZZLE : createRandomPuzzle(config, random, selection),
+    config,
+    selection,
+  };
+}
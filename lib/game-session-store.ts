@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import { GameSession, GameSessionError, createGameSession } from "./game-session";
+import { GameConfig } from "./wordle";
+import { Puzzle, createRandomPuzzle, getPuzzle } from "./puzzle";
+import { getDailyKey, getDailyPuzzle } from "./daily";
+import { SelectionOptions } from "./selection";
+
+interface GameSessionStore {
+  sessions: Map<string, GameSession>;
+}
+
+export interface CreateSessionOptions {
+  config: GameConfig;
+  hardMode: boolean;
+  /** Replays a shared puzzle instead of picking a random word. */
+  puzzleId?: string;
+  /** The player's local date, so the daily word flips at their midnight rather than ours. */
+  dailyKey?: string;
+  /** Word filter and recently played words for random picks. */
+  selection?: SelectionOptions;
+}
+
+// Like race rooms, sessions live in process memory; the session ID is the only credential.
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const globalForSessions = globalThis as typeof globalThis & {
+  __wordleGameSessionStore?: GameSessionStore;
+};
+const store: GameSessionStore = (globalForSessions.__wordleGameSessionStore ??= {
+  sessions: new Map(),
+});
+
+function pruneExpiredSessions(now: number) {
+  for (const [id, session] of store.sessions) {
+    if (now - session.updatedAt > SESSION_TTL_MS) store.sessions.delete(id);
+  }
+}
+
+function resolveDailyPuzzle(dailyKey: string, now: number): Puzzle {
+  // Time zones put players up to a day either side of the server; anything further is peeking.
+  const allowedKeys = [-1, 0, 1].map((offset) => getDailyKey(new Date(now + offset * MS_PER_DAY)));
+  if (!allowedKeys.includes(dailyKey)) {
+    throw new GameSessionError("invalid-request", "That daily isn't available");
+  }
+  const [year, month, day] = dailyKey.split("-").map(Number);
+  return getDailyPuzzle(new Date(year, month - 1, day));
+}
+
+export function createSession({
+  config,
+  hardMode,
+  puzzleId,
+  dailyKey,
+  selection,
+}: CreateSessionOptions): GameSession {
+  const now = Date.now();
+  pruneExpiredSessions(now);
+
+  let puzzle: Puzzle;
+  if (dailyKey) {
+    puzzle = resolveDailyPuzzle(dailyKey, now);
+  } else if (puzzleId) {
+    const shared = getPuzzle(puzzleId);
+    if (!shared) throw new GameSessionError("not-found", "Puzzle link not recognized");
+    puzzle = shared;
+  } else {
+    puzzle = createRandomPuzzle(config, Math.random, selection);
+  }
+
+  const session = createGameSession(
+    randomUUID(),
+    {
+      solution: puzzle.solution,
+      config: { ...config, wordLength: puzzle.solution.length },
+      hardMode,
+      puzzleId: puzzle.id,
+      dailyKey: dailyKey ?? null,
+    },
+    now,
+  );
+  store.sessions.set(session.id, session);
+  return session;
+}
+
+export function getSession(id: string): GameSession {
+  const session = store.sessions.get(id);
+  if (!session) throw new GameSessionError("not-found", "Game not found");
+  return session;
+}
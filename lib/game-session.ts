@@ -0,0 +1,118 @@
+import {
+  GameConfig,
+  LetterEvaluation,
+  evaluateGuess,
+  getHardModeViolation,
+  isValidGuess,
+  normalizeGuess,
+} from "./wordle";
+
+export type GameSessionStatus = "playing" | "won" | "lost";
+
+/** Server-side game state. Never serialize this to a client; use `toPublicSession`. */
+export interface GameSession {
+  id: string;
+  solution: string;
+  config: GameConfig;
+  hardMode: boolean;
+  puzzleId: string;
+  dailyKey: string | null;
+  guesses: string[];
+  status: GameSessionStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PublicGameSession {
+  id: string;
+  config: GameConfig;
+  hardMode: boolean;
+  dailyKey: string | null;
+  rows: LetterEvaluation[][];
+  status: GameSessionStatus;
+  /** Revealed only once the game is over, along with the puzzle ID that encodes it. */
+  solution: string | null;
+  puzzleId: string | null;
+}
+
+export type GameSessionErrorCode = "not-found" | "finished" | "invalid-request" | "invalid-guess";
+
+export class GameSessionError extends Error {
+  readonly code: GameSessionErrorCode;
+
+  constructor(code: GameSessionErrorCode, message: string) {
+    super(message);
+    this.name = "GameSessionError";
+    this.code = code;
+  }
+}
+
+export function createGameSession(
+  id: string,
+  game: Pick<GameSession, "solution" | "config" | "hardMode" | "puzzleId" | "dailyKey">,
+  now: number = Date.now(),
+): GameSession {
+  return { ...game, id, guesses: [], status: "playing", createdAt: now, updatedAt: now };
+}
+
+/**
+ * Validates and evaluates a guess with the same rules as the local game, hard mode included.
+ * Like the local game, hard mode can still be switched until the first guess lands.
+ */
+export function submitSessionGuess(
+  session: GameSession,
+  guess: string,
+  options: { hardMode?: boolean } = {},
+  now: number = Date.now(),
+): LetterEvaluation[] {
+  if (session.status !== "playing") throw new GameSessionError("finished", "This game is over");
+  if (options.hardMode !== undefined && session.guesses.length === 0) {
+    session.hardMode = options.hardMode;
+  }
+
+  const normalized = normalizeGuess(guess);
+  if (normalized.length !== session.config.wordLength) {
+    throw new GameSessionError("invalid-guess", "Not enough letters");
+  }
+  if (!isValidGuess(normalized, session.config)) {
+    throw new GameSessionError("invalid-guess", "Not in word list");
+  }
+  if (session.hardMode) {
+    const previousRows = session.guesses.map(
+      (previous) => evaluateGuess(previous, session.solution).letters,
+    );
+    const violation = getHardModeViolation(normalized, previousRows);
+    if (violation) throw new GameSessionError("invalid-guess", violation);
+  }
+
+  const evaluation = evaluateGuess(normalized, session.solution);
+  session.guesses.push(normalized);
+  if (evaluation.isCorrect) {
+    session.status = "won";
+  } else if (session.guesses.length >= session.config.maxGuesses) {
+    session.status = "lost";
+  }
+  session.updatedAt = now;
+  return evaluation.letters;
+}
+
+/** Ends an unfinished game as a loss so the player can see the word. */
+export function resignSession(session: GameSession, now: number = Date.now()) {
+  if (session.status !== "playing") return;
+  session.status = "lost";
+  session.updatedAt = now;
+}
+
+export function toPublicSession(session: GameSession): PublicGameSession {
+  const isOver = session.status !== "playing";
+  return {
+    id: session.id,
+    config: session.config,
+    hardMode: session.hardMode,
+    dailyKey: session.dailyKey,
+    rows: session.guesses.map((guess) => evaluateGuess(guess, session.solution).letters),
+    status: session.status,
+    solution: isOver ? session.solution : null,
+    puzzleId: isOver ? session.puzzleId : null,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  MultiBoardGame,
+  createMultiBoardGame,
+  getBoardProgress,
+  getMultiBoardStatus,
+  getSplitKeyboardState,
+  normalizeMultiBoardGame,
+  submitMultiBoardGuess,
+} from "./multi-board";
+
+function dordle(guesses: string[], solutions = ["crane", "cider"]): MultiBoardGame {
+  return { variant: "dordle", wordLength: 5, solutions, guesses };
+}
+
+const MISSES = ["slate", "pious", "dough", "blimp", "fuzzy"];
+
+describe("getMultiBoardStatus", () => {
+  it.each([
+    { guesses: [], status: "playing" },
+    { guesses: ["crane"], status: "playing" },
+    { guesses: ["crane", "cider"], status: "won" },
+    { guesses: ["cider", ...MISSES, "crane"], status: "won" },
+    { guesses: ["crane", ...MISSES, "slate"], status: "lost" },
+    { guesses: [...MISSES, "slate", "pious"], status: "lost" },
+  ])("is $status after $guesses.length guesses", ({ guesses, status }) => {
+    expect(getMultiBoardStatus(dordle(guesses))).toBe(status);
+  });
+
+  it("wins when one guess solves every board at once", () => {
+    expect(getMultiBoardStatus(dordle(["crane"], ["crane", "crane"]))).toBe("won");
+  });
+});
+
+describe("getBoardProgress", () => {
+  it("stops each board at the guess that solved it", () => {
+    const [crane, cider] = getBoardProgress(dordle(["slate", "crane", "cider"]));
+    expect(crane).toMatchObject({ solvedAt: 2, rows: [expect.any(Array), expect.any(Array)] });
+    expect(cider).toMatchObject({ solvedAt: 3 });
+    expect(cider.rows).toHaveLength(3);
+  });
+});
+
+describe("submitMultiBoardGuess", () => {
+  it("ignores guesses once the game is over", () => {
+    const won = dordle(["crane", "cider"]);
+    expect(submitMultiBoardGuess(won, "slate")).toBe(won);
+    expect(submitMultiBoardGuess(dordle([]), "slate").guesses).toEqual(["slate"]);
+  });
+});
+
+describe("getSplitKeyboardState", () => {
+  it("keeps each board's color for a letter, leaving solved boards out of later rows", () => {
+    const keyboard = getSplitKeyboardState(getBoardProgress(dordle(["crane", "dough"])));
+    expect(keyboard.C).toEqual(["correct", "correct"]);
+    expect(keyboard.A).toEqual(["correct", "absent"]);
+    expect(keyboard.D).toEqual([undefined, "present"]);
+  });
+});
+
+describe("createMultiBoardGame", () => {
+  it("never puts the same word on two boards", () => {
+    const game = createMultiBoardGame("quordle", 5, () => 0);
+    expect(game.solutions).toHaveLength(4);
+    expect(new Set(game.solutions).size).toBe(4);
+  });
+});
+
+describe("normalizeMultiBoardGame", () => {
+  it.each([
+    { save: "a game in progress", raw: dordle(["slate"]), valid: true },
+    { save: "an unknown variant", raw: { ...dordle([]), variant: "octordle" }, valid: false },
+    { save: "an unsupported length", raw: { ...dordle([]), wordLength: 3 }, valid: false },
+    { save: "a missing board", raw: dordle([], ["crane"]), valid: false },
+    { save: "an uppercase guess", raw: dordle(["SLATE"]), valid: false },
+    { save: "nothing", raw: null, valid: false },
+  ])("reads back $save: $valid", ({ raw, valid }) => {
+    expect(normalizeMultiBoardGame(raw)).toEqual(valid ? raw : null);
+  });
+});
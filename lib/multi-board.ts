@@ -0,0 +1,133 @@
+import {
+  DEFAULT_GAME_CONFIG,
+  GameConfig,
+  LetterEvaluation,
+  LetterState,
+  evaluateGuess,
+  getKeyboardState,
+} from "./wordle";
+import { SUPPORTED_WORD_LENGTHS, getWordBank } from "./word-bank";
+import type { RandomSource } from "./puzzle";
+import { SelectionOptions, pickSolutionIndex } from "./selection";
+
+export type MultiBoardVariantId = "dordle" | "quordle";
+
+export interface MultiBoardVariant {
+  id: MultiBoardVariantId;
+  label: string;
+  boards: number;
+  maxGuesses: number;
+}
+
+export const MULTI_BOARD_VARIANTS: Record<MultiBoardVariantId, MultiBoardVariant> = {
+  dordle: { id: "dordle", label: "Dordle", boards: 2, maxGuesses: 7 },
+  quordle: { id: "quordle", label: "Quordle", boards: 4, maxGuesses: 9 },
+};
+
+/** Everything else about a multi-board game is derived from its solutions and guesses. */
+export interface MultiBoardGame {
+  variant: MultiBoardVariantId;
+  wordLength: number;
+  solutions: string[];
+  guesses: string[];
+}
+
+export interface BoardProgress {
+  solution: string;
+  /** Feedback rows; a board stops taking rows once it's solved. */
+  rows: LetterEvaluation[][];
+  /** 1-based guess number that solved the board, if it has been solved. */
+  solvedAt: number | null;
+}
+
+export type MultiBoardStatus = "playing" | "won" | "lost";
+
+/** Each letter's state on every board, in board order. */
+export type SplitKeyboardState = Record<string, (LetterState | undefined)[]>;
+
+export function isMultiBoardVariant(value: unknown): value is MultiBoardVariantId {
+  return Object.values(MULTI_BOARD_VARIANTS).some((variant) => variant.id === value);
+}
+
+export function getMultiBoardConfig(game: MultiBoardGame): GameConfig {
+  return { wordLength: game.wordLength, maxGuesses: MULTI_BOARD_VARIANTS[game.variant].maxGuesses };
+}
+
+/**
+ * Picks one distinct solution per board; earlier picks join the recent list so the selection
+ * rules that keep recent words out also keep the boards apart.
+ */
+export function createMultiBoardGame(
+  variantId: MultiBoardVariantId,
+  wordLength: number = DEFAULT_GAME_CONFIG.wordLength,
+  random: RandomSource = Math.random,
+  { recent = [], ...selection }: SelectionOptions = {},
+): MultiBoardGame {
+  const variant = MULTI_BOARD_VARIANTS[variantId];
+  const config = { wordLength, maxGuesses: variant.maxGuesses };
+  const { solutions } = getWordBank(wordLength);
+  const picked: string[] = [];
+  for (let board = 0; board < variant.boards; board += 1) {
+    const index = pickSolutionIndex(config, random, {
+      ...selection,
+      recent: [...picked, ...recent],
+    });
+    picked.push(solutions[index]);
+  }
+  return { variant: variantId, wordLength, solutions: picked, guesses: [] };
+}
+
+export function getBoardProgress(game: MultiBoardGame): BoardProgress[] {
+  return game.solutions.map((solution) => {
+    const rows: LetterEvaluation[][] = [];
+    let solvedAt: number | null = null;
+    for (const guess of game.guesses) {
+      const result = evaluateGuess(guess, solution);
+      rows.push(result.letters);
+      if (result.isCorrect) {
+        solvedAt = rows.length;
+        break;
+      }
+    }
+    return { solution, rows, solvedAt };
+  });
+}
+
+export function getMultiBoardStatus(game: MultiBoardGame): MultiBoardStatus {
+  if (getBoardProgress(game).every((board) => board.solvedAt !== null)) return "won";
+  return game.guesses.length >= MULTI_BOARD_VARIANTS[game.variant].maxGuesses ? "lost" : "playing";
+}
+
+export function submitMultiBoardGuess(game: MultiBoardGame, guess: string): MultiBoardGame {
+  if (getMultiBoardStatus(game) !== "playing") return game;
+  return { ...game, guesses: [...game.guesses, guess] };
+}
+
+export function getSplitKeyboardState(boards: BoardProgress[]): SplitKeyboardState {
+  const perBoard = boards.map((board) => getKeyboardState(board.rows));
+  const letters = new Set(perBoard.flatMap((keyboard) => Object.keys(keyboard)));
+  const split: SplitKeyboardState = {};
+  for (const letter of letters) {
+    split[letter] = perBoard.map((keyboard) => keyboard[letter]);
+  }
+  return split;
+}
+
+/** Validates a stored game so a stale or hand-edited save can't break the page. */
+export function normalizeMultiBoardGame(raw: unknown): MultiBoardGame | null {
+  const game = raw as Partial<MultiBoardGame> | null;
+  if (!game || !isMultiBoardVariant(game.variant)) return null;
+  const { wordLength } = game;
+  if (!SUPPORTED_WORD_LENGTHS.some((length) => length === wordLength)) return null;
+  const isWord = (word: unknown) =>
+    typeof word === "string" && word.length === wordLength && /^[a-z]+$/.test(word);
+  if (!Array.isArray(game.solutions) || !Array.isArray(game.guesses)) return null;
+  if (game.solutions.length !== MULTI_BOARD_VARIANTS[game.variant].boards) return null;
+  if (!game.solutions.every(isWord) || !game.guesses.every(isWord)) return null;
+  return {
+    variant: game.variant,
+    wordLength: wordLength as number,
+    solutions: game.solutions,
+    guesses: game.guesses,
+  };
+}
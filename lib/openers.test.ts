@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getBestOpeners, getOpenerResult, getOpenerStats, loadOpenerSettings } from "./openers";
+import { createHistoryEntry } from "./stats";
+import { DEFAULT_GAME_CONFIG } from "./wordle";
+import { PRACTICE_WORDS } from "./word-bank";
+import { scoreGuess } from "./solver";
+
+const mode = { ...DEFAULT_GAME_CONFIG, hardMode: false };
+
+function createStorage(value: string | null) {
+  return { getItem: () => value, setItem: () => undefined };
+}
+
+describe("getOpenerStats", () => {
+  const history = [
+    createHistoryEntry("there", ["crane", "there"], true, mode),
+    createHistoryEntry("right", ["crane", "moist", "right"], true, mode),
+    createHistoryEntry("again", ["slate"], false, mode),
+    createHistoryEntry("bird", ["crane"], false, { ...mode, wordLength: 4 }),
+  ];
+
+  it("groups games by first guess and averages what each guess left", () => {
+    const [crane, slate] = getOpenerStats(history);
+    const leftAfterCrane = ["there", "right"].map(
+      (solution) => getOpenerResult("crane", solution).left,
+    );
+
+    expect(crane).toMatchObject({ opener: "crane", games: 2, wins: 2, averageGuesses: 2.5 });
+    expect(crane.averageLeftAfterFirst).toBe((leftAfterCrane[0] + leftAfterCrane[1]) / 2);
+    expect(crane.averageLeftAfterSecond).toBeLessThan(crane.averageLeftAfterFirst);
+    expect(crane.expectedLeft).toBe(scoreGuess("crane", PRACTICE_WORDS).expectedRemaining);
+    expect(slate).toMatchObject({ opener: "slate", wins: 0, averageGuesses: null });
+    expect(slate.averageLeftAfterSecond).toBeNull();
+  });
+
+  it("only counts games of the requested word length", () => {
+    expect(getOpenerStats(history, 4)).toEqual([
+      expect.objectContaining({ opener: "crane", games: 1 }),
+    ]);
+  });
+});
+
+describe("getOpenerResult", () => {
+  it("leaves just the answer when the opener is the answer", () => {
+    expect(getOpenerResult("there", "there").left).toBe(1);
+  });
+});
+
+describe("getBestOpeners", () => {
+  it("ranks openers by the information they earn", () => {
+    const best = getBestOpeners(5, 3);
+    expect(best).toHaveLength(3);
+    expect(best[0].entropy).toBeGreaterThanOrEqual(best[2].entropy);
+  });
+});
+
+describe("loadOpenerSettings", () => {
+  it.each([
+    { stored: null, expected: { word: null, autoFill: false } },
+    { stored: "not json", expected: { word: null, autoFill: false } },
+    { stored: '{"word":"CRANE","autoFill":true}', expected: { word: "crane", autoFill: true } },
+    { stored: '{"word":"cr4ne","autoFill":"yes"}', expected: { word: null, autoFill: false } },
+  ])("reads $stored", ({ stored, expected }) => {
+    expect(loadOpenerSettings(createStorage(stored))).toEqual(expected);
+  });
+});
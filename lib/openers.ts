@@ -0,0 +1,114 @@
+import { DEFAULT_GAME_CONFIG, GameConfig, evaluateGuess, normalizeGuess } from "./wordle";
+import { getWordBank } from "./word-bank";
+import { GuessSuggestion, filterCandidates, getHint, scoreGuess } from "./solver";
+import type { GameHistoryEntry } from "./stats";
+import { writeStorage } from "./storage";
+
+export const OPENER_STORAGE_KEY = "wordle-practice/opener";
+
+type OpenerStorage = Pick<Storage, "getItem" | "setItem">;
+
+export interface OpenerSettings {
+  /** The player's preferred first guess, if they've picked one. */
+  word: string | null;
+  /** Plays `word` as the first guess of every game it fits, without typing it. */
+  autoFill: boolean;
+}
+
+export const DEFAULT_OPENER_SETTINGS: OpenerSettings = { word: null, autoFill: false };
+
+export function loadOpenerSettings(storage: OpenerStorage): OpenerSettings {
+  try {
+    const stored = JSON.parse(
+      storage.getItem(OPENER_STORAGE_KEY) ?? "null",
+    ) as Partial<OpenerSettings> | null;
+    const word = typeof stored?.word === "string" ? normalizeGuess(stored.word) : "";
+    return { word: /^[a-z]+$/.test(word) ? word : null, autoFill: stored?.autoFill === true };
+  } catch {
+    return DEFAULT_OPENER_SETTINGS;
+  }
+}
+
+export function saveOpenerSettings(storage: OpenerStorage, settings: OpenerSettings) {
+  writeStorage(storage, OPENER_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** How one first guess has worked out across the player's games. */
+export interface OpenerStats {
+  opener: string;
+  games: number;
+  wins: number;
+  /** Over won games only, like the guess distribution. */
+  averageGuesses: number | null;
+  /** Solutions still consistent with the feedback after the first guess, averaged over games. */
+  averageLeftAfterFirst: number;
+  /** The same after the second guess, over games that got that far; `null` if none did. */
+  averageLeftAfterSecond: number | null;
+  /** What the opener leaves on average across every solution, however it was played. */
+  expectedLeft: number;
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Candidates left after each of the first `count` guesses of a game. */
+function getCandidatesLeft(solutions: readonly string[], entry: GameHistoryEntry, count: number) {
+  const rows = entry.guesses
+    .slice(0, count)
+    .map((guess) => evaluateGuess(guess, entry.solution).letters);
+  return rows.map((_, index) => filterCandidates(solutions, rows.slice(0, index + 1)).length);
+}
+
+/**
+ * Groups the games of one word length by their first guess, most-played first. Daily games
+ * count too: an opener is the same habit whichever mode it's played in.
+ */
+export function getOpenerStats(
+  history: GameHistoryEntry[],
+  wordLength: number = DEFAULT_GAME_CONFIG.wordLength,
+): OpenerStats[] {
+  const { answers } = getWordBank(wordLength);
+  const games = new Map<string, GameHistoryEntry[]>();
+  for (const entry of history) {
+    if (entry.mode.wordLength !== wordLength || entry.guesses.length === 0) continue;
+    const opener = entry.guesses[0];
+    games.set(opener, [...(games.get(opener) ?? []), entry]);
+  }
+
+  return [...games.entries()]
+    .map(([opener, entries]) => {
+      const left = entries.map((entry) => getCandidatesLeft(answers, entry, 2));
+      const wins = entries.filter((entry) => entry.result === "won");
+      return {
+        opener,
+        games: entries.length,
+        wins: wins.length,
+        averageGuesses: average(wins.map((entry) => entry.guesses.length)),
+        averageLeftAfterFirst: average(left.map(([first]) => first)) ?? 0,
+        averageLeftAfterSecond: average(
+          left.filter((counts) => counts.length > 1).map(([, second]) => second),
+        ),
+        expectedLeft: scoreGuess(opener, answers).expectedRemaining,
+      };
+    })
+    .sort((a, b) => b.games - a.games || a.expectedLeft - b.expectedLeft);
+}
+
+/**
+ * The strongest first guesses for a word length, ranked by the solver over the solution list.
+ * The ranking is cached, so calling this again is cheap.
+ */
+export function getBestOpeners(
+  wordLength: number = DEFAULT_GAME_CONFIG.wordLength,
+  limit = 10,
+): GuessSuggestion[] {
+  const config: GameConfig = { ...DEFAULT_GAME_CONFIG, wordLength };
+  return getHint([], { config, limit }).suggestions;
+}
+
+/** Solutions still possible after opening with `opener` on a game whose answer is `solution`. */
+export function getOpenerResult(opener: string, solution: string) {
+  const row = evaluateGuess(opener, solution).letters;
+  return { row, left: filterCandidates(getWordBank(solution.length).answers, [row]).length };
+}
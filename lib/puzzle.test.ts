@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createRandomPuzzle, createSeededRandom, getPuzzle, getPuzzleForSolution } from "./puzzle";
+import { RETIRED_SOLUTION, getWordBank } from "./word-bank";
+
+describe("puzzle IDs", () => {
+  // Issued before any word was retired; they must open the same word for as long as they exist.
+  it.each([
+    ["0aug8dt", "there"],
+    ["0z85vc3", "guest"],
+    ["1rkvpbl", "croak"],
+    ["0j8234h", "crop"],
+    ["0jtdp4c", "intake"],
+    ["06pecs4", "younger"],
+  ])("keeps %s on %s", (id, solution) => {
+    expect(getPuzzle(id)).toEqual({ id, solution });
+    expect(getPuzzleForSolution(solution)?.id).toBe(id);
+  });
+
+  it("stops resolving the ID of a retired word instead of moving it", () => {
+    expect(getWordBank(5).solutions[288]).toBe(RETIRED_SOLUTION);
+    expect(getPuzzle("1loucm7")).toBeNull();
+    expect(getPuzzleForSolution("bitch")).toBeNull();
+    expect(getPuzzleForSolution("")).toBeNull();
+  });
+
+  it("never picks a retired slot", () => {
+    const random = createSeededRandom(7);
+    for (const wordLength of [4, 5]) {
+      for (let game = 0; game < 500; game += 1) {
+        const puzzle = createRandomPuzzle({ wordLength, maxGuesses: 6 }, random);
+        expect(puzzle.solution).not.toBe(RETIRED_SOLUTION);
+        expect(getPuzzle(puzzle.id)).toEqual(puzzle);
+      }
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { DEFAULT_GAME_CONFIG, GameConfig } from "./wordle";
+import { SUPPORTED_WORD_LENGTHS, getWordBank } from "./word-bank";
+import { SelectionOptions, pickSolutionIndex } from "./selection";
+
+export interface Puzzle {
+  id: string;
+  solution: string;
+}
+
+export type RandomSource = () => number;
+
+// Layout of the 32-bit payload behind a puzzle ID: 11-bit checksum, 18-bit word index and a
+// 3-bit word length. IDs point at a position in an append-only solution list, so they keep
+// resolving to the same word when new solutions are added to the end; an ID whose word has
+// been retired stops resolving rather than moving to another word.
+const LENGTH_BITS = 3;
+const INDEX_BITS = 18;
+const VALUE_BITS = LENGTH_BITS + INDEX_BITS;
+const CHECKSUM_SALT = 0x5f3759df;
+const ID_LENGTH = 7;
+
+/**
+ * Mulberry32: a tiny seeded PRNG, good enough to make word picks reproducible.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// lowbias32 and its inverse: a bijective integer hash that hides the word index in the ID.
+function scramble(value: number): number {
+  let x = value >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+function unscramble(value: number): number {
+  let x = value >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x43021123);
+  x ^= (x >>> 15) ^ (x >>> 30);
+  x = Math.imul(x, 0x1d69e2a5);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+function getChecksum(value: number): number {
+  return scramble(value ^ CHECKSUM_SALT) >>> VALUE_BITS;
+}
+
+export function encodePuzzleId(wordLength: number, index: number): string {
+  const value = ((index << LENGTH_BITS) | wordLength) >>> 0;
+  const payload = ((getChecksum(value) << VALUE_BITS) | value) >>> 0;
+  return scramble(payload).toString(36).padStart(ID_LENGTH, "0");
+}
+
+export function decodePuzzleId(id: string): { wordLength: number; index: number } | null {
+  if (!/^[0-9a-z]{1,7}$/i.test(id)) return null;
+  const scrambled = parseInt(id.toLowerCase(), 36);
+  if (!Number.isFinite(scrambled) || scrambled > 0xffffffff) return null;
+
+  const payload = unscramble(scrambled);
+  const value = payload & ((1 << VALUE_BITS) - 1);
+  if (payload >>> VALUE_BITS !== getChecksum(value)) return null;
+
+  const wordLength = value & ((1 << LENGTH_BITS) - 1);
+  const index = value >>> LENGTH_BITS;
+  if (!SUPPORTED_WORD_LENGTHS.some((length) => length === wordLength)) return null;
+  // Out-of-range indexes and retired slots both come back empty.
+  if (!getWordBank(wordLength).solutions[index]) return null;
+  return { wordLength, index };
+}
+
+export function getPuzzle(id: string): Puzzle | null {
+  const decoded = decodePuzzleId(id);
+  if (!decoded) return null;
+  return {
+    id: encodePuzzleId(decoded.wordLength, decoded.index),
+    solution: getWordBank(decoded.wordLength).solutions[decoded.index],
+  };
+}
+
+export function getPuzzleForSolution(solution: string): Puzzle | null {
+  if (!solution) return null;
+  const index = getWordBank(solution.length).solutions.indexOf(solution);
+  return index === -1 ? null : { id: encodePuzzleId(solution.length, index), solution };
+}
+
+export function createRandomPuzzle(
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  random: RandomSource = Math.random,
+  selection: SelectionOptions = {},
+): Puzzle {
+  const { solutions } = getWordBank(config.wordLength);
+  const index = pickSolutionIndex(config, random, selection);
+  return { id: encodePuzzleId(config.wordLength, index), solution: solutions[index] };
+}
+
+export function getSeededPuzzle(seed: number, config: GameConfig = DEFAULT_GAME_CONFIG): Puzzle {
+  return createRandomPuzzle(config, createSeededRandom(seed));
+}
+
+export function getPuzzleUrl(id: string, origin: string): string {
+  return `${origin}/?puzzle=${encodeURIComponent(id)}`;
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RACE_DISCONNECT_MS, joinRaceRoom, startRace } from "./race";
+import {
+  createRoom,
+  getRoom,
+  markPlayerConnected,
+  subscribeToRoom,
+  updateRoom,
+} from "./race-store";
+
+const ROOM_TTL_MS = 2 * 60 * 60 * 1000;
+
+describe("race store", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createRaceFor(...names: string[]) {
+    const room = createRoom();
+    updateRoom(room.id, (current) => {
+      for (const name of names) joinRaceRoom(current, { id: name, token: `${name}-token`, name });
+      startRace(current, `${names[0]}-token`);
+    });
+    return room;
+  }
+
+  it("closes open streams when a room expires", () => {
+    const room = createRoom();
+    const listener = { send: vi.fn(), close: vi.fn() };
+    subscribeToRoom(room.id, listener);
+
+    vi.advanceTimersByTime(ROOM_TTL_MS + 1);
+    createRoom();
+
+    expect(listener.close).toHaveBeenCalledOnce();
+    expect(() => getRoom(room.id)).toThrow(expect.objectContaining({ code: "not-found" }));
+  });
+
+  it("pushes the room to open streams when a silent player is put out", () => {
+    const room = createRaceFor("ada", "bo");
+    const listener = { send: vi.fn(), close: vi.fn() };
+    subscribeToRoom(room.id, listener);
+
+    vi.advanceTimersByTime(RACE_DISCONNECT_MS + 1);
+    markPlayerConnected(room.id, "ada-token");
+
+    expect(room.players.map((player) => player.result)).toEqual(["playing", "out"]);
+    expect(listener.send).toHaveBeenCalledWith(room);
+  });
+});
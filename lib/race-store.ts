@@ -0,0 +1,111 @@
+import { randomBytes, randomUUID } from "crypto";
+import {
+  RaceError,
+  RaceRoom,
+  createRaceRoom,
+  markRacePlayerSeen,
+  removeInactivePlayers,
+} from "./race";
+import { createRandomPuzzle } from "./puzzle";
+
+/** An open event stream: `send` pushes a snapshot, `close` ends the stream for good. */
+export interface RoomListener {
+  send: (room: RaceRoom) => void;
+  close: () => void;
+}
+
+interface RaceStore {
+  rooms: Map<string, RaceRoom>;
+  listeners: Map<string, Set<RoomListener>>;
+}
+
+// Rooms live in process memory, so a single Node server hosts every race.
+const ROOM_TTL_MS = 2 * 60 * 60 * 1000;
+const ROOM_ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Kept on globalThis so dev-server reloads don't drop rooms mid-race.
+const globalForRace = globalThis as typeof globalThis & { __wordleRaceStore?: RaceStore };
+const store: RaceStore = (globalForRace.__wordleRaceStore ??= {
+  rooms: new Map(),
+  listeners: new Map(),
+});
+
+function pruneExpiredRooms(now: number) {
+  for (const [id, room] of store.rooms) {
+    if (now - room.updatedAt > ROOM_TTL_MS) {
+      for (const listener of store.listeners.get(id) ?? []) listener.close();
+      store.rooms.delete(id);
+      store.listeners.delete(id);
+    }
+  }
+}
+
+function createRoomId(): string {
+  const bytes = randomBytes(6);
+  return Array.from(bytes, (byte) => ROOM_ID_ALPHABET[byte % ROOM_ID_ALPHABET.length]).join("");
+}
+
+export function createRoom(): RaceRoom {
+  const now = Date.now();
+  pruneExpiredRooms(now);
+  let id = createRoomId();
+  while (store.rooms.has(id)) id = createRoomId();
+  const room = createRaceRoom(id, createRandomPuzzle().solution, undefined, now);
+  store.rooms.set(id, room);
+  return room;
+}
+
+function notifyListeners(room: RaceRoom) {
+  for (const listener of store.listeners.get(room.id) ?? []) {
+    listener.send(room);
+  }
+}
+
+function findRoom(id: string): RaceRoom {
+  const room = store.rooms.get(id.toUpperCase());
+  if (!room) throw new RaceError("not-found", "Room not found");
+  return room;
+}
+
+// There's no timer per room: inactive players are swept whenever anyone reads the room,
+// which includes every open stream's keep-alive.
+function sweepRoom(room: RaceRoom, now: number) {
+  if (removeInactivePlayers(room, now)) notifyListeners(room);
+}
+
+export function getRoom(id: string, now: number = Date.now()): RaceRoom {
+  const room = findRoom(id);
+  sweepRoom(room, now);
+  return room;
+}
+
+/** Heartbeat from a player's open event stream. */
+export function markPlayerConnected(id: string, token: string | null, now: number = Date.now()) {
+  const room = findRoom(id);
+  markRacePlayerSeen(room, token, now);
+  sweepRoom(room, now);
+}
+
+export function createPlayerCredentials() {
+  return { id: randomUUID(), token: randomUUID() };
+}
+
+/**
+ * Runs a mutation against a room and pushes the new state to every open stream.
+ */
+export function updateRoom<T>(id: string, mutate: (room: RaceRoom) => T): T {
+  const room = getRoom(id);
+  const result = mutate(room);
+  notifyListeners(room);
+  return result;
+}
+
+export function subscribeToRoom(id: string, listener: RoomListener): () => void {
+  const room = getRoom(id);
+  const listeners = store.listeners.get(room.id) ?? new Set<RoomListener>();
+  listeners.add(listener);
+  store.listeners.set(room.id, listeners);
+  return () => {
+    listeners.delete(listener);
+  };
+}
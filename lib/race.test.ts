@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  RACE_DISCONNECT_MS,
+  RACE_IDLE_MS,
+  RaceRoom,
+  createRaceRoom,
+  joinRaceRoom,
+  markRacePlayerSeen,
+  removeInactivePlayers,
+  startRace,
+  submitRaceGuess,
+} from "./race";
+
+function createRoomWith(names: string[], now = 0): RaceRoom {
+  const room = createRaceRoom("ROOM42", "cider", undefined, now);
+  for (const name of names) joinRaceRoom(room, { id: name, token: `${name}-token`, name }, now);
+  return room;
+}
+
+function createRunningRace(names: string[], now = 0): RaceRoom {
+  const room = createRoomWith(names, now);
+  startRace(room, `${names[0]}-token`, now);
+  return room;
+}
+
+describe("joinRaceRoom", () => {
+  it("turns players away once the race has started", () => {
+    const room = createRunningRace(["ada", "bo"]);
+    expect(() => joinRaceRoom(room, { id: "cy", token: "cy-token", name: "cy" })).toThrow(
+      expect.objectContaining({ code: "started" }),
+    );
+    expect(room.players).toHaveLength(2);
+  });
+
+  it("turns players away once the race is over", () => {
+    const room = createRunningRace(["ada"]);
+    submitRaceGuess(room, "ada-token", "cider", 1);
+    expect(() => joinRaceRoom(room, { id: "cy", token: "cy-token", name: "cy" })).toThrow(
+      expect.objectContaining({ code: "finished" }),
+    );
+  });
+});
+
+describe("removeInactivePlayers", () => {
+  it("drops lobby players who disconnected and hands the room to the next host", () => {
+    const room = createRoomWith(["ada", "bo"]);
+    markRacePlayerSeen(room, "bo-token", RACE_DISCONNECT_MS);
+
+    expect(removeInactivePlayers(room, RACE_DISCONNECT_MS + 1)).toBe(true);
+    expect(room.players.map((player) => player.id)).toEqual(["bo"]);
+    expect(room.hostId).toBe("bo");
+  });
+
+  it("keeps a player who checks in within the grace period", () => {
+    const room = createRunningRace(["ada", "bo"]);
+    markRacePlayerSeen(room, "ada-token", RACE_DISCONNECT_MS);
+    markRacePlayerSeen(room, "bo-token", RACE_DISCONNECT_MS);
+
+    expect(removeInactivePlayers(room, RACE_DISCONNECT_MS + 1)).toBe(false);
+    expect(room.players.map((player) => player.result)).toEqual(["playing", "playing"]);
+  });
+
+  it("puts a racer out when their stream has been gone too long", () => {
+    const room = createRunningRace(["ada", "bo"]);
+    const now = RACE_DISCONNECT_MS + 1;
+    markRacePlayerSeen(room, "ada-token", now);
+
+    expect(removeInactivePlayers(room, now)).toBe(true);
+    expect(room.players.map((player) => player.result)).toEqual(["playing", "out"]);
+    expect(room.status).toBe("playing");
+  });
+
+  it("puts a racer out when they stop guessing, even with the page open", () => {
+    const room = createRunningRace(["ada", "bo"]);
+    const now = RACE_IDLE_MS + 1;
+    submitRaceGuess(room, "ada-token", "crane", RACE_IDLE_MS);
+    markRacePlayerSeen(room, "bo-token", now);
+
+    removeInactivePlayers(room, now);
+    expect(room.players.map((player) => player.result)).toEqual(["playing", "out"]);
+  });
+
+  it("ends the race once nobody is left playing", () => {
+    const room = createRunningRace(["ada", "bo"]);
+    for (let guess = 1; guess <= room.config.maxGuesses; guess += 1) {
+      submitRaceGuess(room, "ada-token", "crane", guess);
+    }
+    expect(room.status).toBe("playing");
+
+    removeInactivePlayers(room, RACE_DISCONNECT_MS + room.config.maxGuesses + 1);
+    expect(room.status).toBe("finished");
+    expect(room.winnerId).toBeNull();
+  });
+
+  it("stops an out player from guessing", () => {
+    const room = createRunningRace(["ada", "bo"]);
+    removeInactivePlayers(room, RACE_IDLE_MS + 1);
+    expect(() => submitRaceGuess(room, "bo-token", "cider")).toThrow(
+      expect.objectContaining({ code: "finished" }),
+    );
+  });
+});
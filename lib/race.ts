@@ -0,0 +1,273 @@
+import {
+  DEFAULT_GAME_CONFIG,
+  GameConfig,
+  LetterEvaluation,
+  LetterState,
+  evaluateGuess,
+  isValidGuess,
+  normalizeGuess,
+} from "./wordle";
+
+export type RaceStatus = "waiting" | "playing" | "finished";
+/** `out` is a player who disconnected or went idle mid-race; they no longer hold the race open. */
+export type RacePlayerResult = "playing" | "won" | "lost" | "out";
+
+export const MAX_RACE_PLAYERS = 8;
+export const MAX_RACE_NAME_LENGTH = 20;
+/** How long a player's event stream may stay closed before they count as gone. */
+export const RACE_DISCONNECT_MS = 45_000;
+/** How long a racer may go without guessing before they're put out. */
+export const RACE_IDLE_MS = 5 * 60 * 1000;
+
+export interface RacePlayer {
+  id: string;
+  /** Secret handed only to the player who joined; required to submit guesses. */
+  token: string;
+  name: string;
+  guesses: string[];
+  rows: LetterState[][];
+  result: RacePlayerResult;
+  joinedAt: number;
+  finishedAt: number | null;
+  /** Last time the player's client checked in; see `markRacePlayerSeen`. */
+  lastSeenAt: number;
+  /** Last guess, or the start of the race, whichever is later. */
+  lastActiveAt: number;
+}
+
+/** Server-side room state. Never serialize this to a client; use `toPublicRoom`. */
+export interface RaceRoom {
+  id: string;
+  hostId: string;
+  solution: string;
+  config: GameConfig;
+  status: RaceStatus;
+  players: RacePlayer[];
+  winnerId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PublicRacePlayer {
+  id: string;
+  name: string;
+  /** Colors only: opponents never see each other's letters. */
+  rows: LetterState[][];
+  result: RacePlayerResult;
+  finishedAt: number | null;
+}
+
+export interface PublicRaceRoom {
+  id: string;
+  hostId: string;
+  status: RaceStatus;
+  config: GameConfig;
+  players: PublicRacePlayer[];
+  winnerId: string | null;
+  /** The viewing player's id, when the snapshot was built for a joined player. */
+  viewerId: string | null;
+  /** The viewing player's own evaluated rows, letters included. */
+  viewerRows: LetterEvaluation[][];
+  /** Revealed only once the viewer is done or the race is over. */
+  solution: string | null;
+}
+
+export type RaceErrorCode =
+  | "not-found"
+  | "unauthorized"
+  | "room-full"
+  | "not-started"
+  | "started"
+  | "finished"
+  | "invalid-name"
+  | "invalid-guess";
+
+export class RaceError extends Error {
+  readonly code: RaceErrorCode;
+
+  constructor(code: RaceErrorCode, message: string) {
+    super(message);
+    this.name = "RaceError";
+    this.code = code;
+  }
+}
+
+export function createRaceRoom(
+  id: string,
+  solution: string,
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  now: number = Date.now(),
+): RaceRoom {
+  return {
+    id,
+    hostId: "",
+    solution,
+    config,
+    status: "waiting",
+    players: [],
+    winnerId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function findPlayerByToken(room: RaceRoom, token: string | null | undefined) {
+  return token ? room.players.find((player) => player.token === token) : undefined;
+}
+
+export function joinRaceRoom(
+  room: RaceRoom,
+  player: { id: string; token: string; name: string },
+  now: number = Date.now(),
+): RacePlayer {
+  const name = player.name.trim().slice(0, MAX_RACE_NAME_LENGTH);
+  if (!name) throw new RaceError("invalid-name", "Pick a name to join");
+  if (room.status === "finished") throw new RaceError("finished", "This race is already over");
+  if (room.status !== "waiting") throw new RaceError("started", "This race has already started");
+  if (room.players.length >= MAX_RACE_PLAYERS) throw new RaceError("room-full", "Room is full");
+
+  const joined: RacePlayer = {
+    ...player,
+    name,
+    guesses: [],
+    rows: [],
+    result: "playing",
+    joinedAt: now,
+    finishedAt: null,
+    lastSeenAt: now,
+    lastActiveAt: now,
+  };
+  room.players.push(joined);
+  // The first player in becomes host and is the one who starts the race.
+  if (!room.hostId) room.hostId = joined.id;
+  room.updatedAt = now;
+  return joined;
+}
+
+export function startRace(room: RaceRoom, token: string, now: number = Date.now()) {
+  const player = findPlayerByToken(room, token);
+  if (!player || player.id !== room.hostId) {
+    throw new RaceError("unauthorized", "Only the host can start the race");
+  }
+  if (room.status !== "waiting") return;
+  room.status = "playing";
+  // Nobody has had a chance to guess yet, so everyone's idle clock starts now.
+  for (const entry of room.players) entry.lastActiveAt = now;
+  room.updatedAt = now;
+}
+
+/** Records that a player's client is still connected. Unknown tokens are ignored. */
+export function markRacePlayerSeen(room: RaceRoom, token: string | null | undefined, now: number) {
+  const player = findPlayerByToken(room, token);
+  if (player) player.lastSeenAt = now;
+}
+
+/**
+ * Drops lobby players whose client went away and, once the race is on, puts out anyone who
+ * disconnected or stopped guessing, so one abandoned tab can't keep the room playing forever.
+ * Returns whether the room changed.
+ */
+export function removeInactivePlayers(room: RaceRoom, now: number = Date.now()): boolean {
+  if (room.status === "finished") return false;
+  const isGone = (player: RacePlayer) => now - player.lastSeenAt > RACE_DISCONNECT_MS;
+
+  if (room.status === "waiting") {
+    const present = room.players.filter((player) => !isGone(player));
+    if (present.length === room.players.length) return false;
+    room.players = present;
+    // Hand the lobby to whoever has been waiting longest; an empty room takes the next joiner.
+    if (!present.some((player) => player.id === room.hostId)) room.hostId = present[0]?.id ?? "";
+    room.updatedAt = now;
+    return true;
+  }
+
+  let changed = false;
+  for (const player of room.players) {
+    if (player.result !== "playing") continue;
+    if (isGone(player) || now - player.lastActiveAt > RACE_IDLE_MS) {
+      player.result = "out";
+      player.finishedAt = now;
+      changed = true;
+    }
+  }
+  if (!changed) return false;
+  finishIfEveryoneDone(room);
+  room.updatedAt = now;
+  return true;
+}
+
+function finishIfEveryoneDone(room: RaceRoom) {
+  if (room.players.every((entry) => entry.result !== "playing")) {
+    room.status = "finished";
+  }
+}
+
+/**
+ * Evaluates a guess on the server with the same rules as the solo game and advances the race.
+ */
+export function submitRaceGuess(
+  room: RaceRoom,
+  token: string,
+  guess: string,
+  now: number = Date.now(),
+): LetterEvaluation[] {
+  const player = findPlayerByToken(room, token);
+  if (!player) throw new RaceError("unauthorized", "Join the room first");
+  if (room.status === "waiting") throw new RaceError("not-started", "The race hasn't started");
+  if (room.status === "finished" || player.result !== "playing") {
+    throw new RaceError("finished", "Your race is over");
+  }
+
+  const normalized = normalizeGuess(guess);
+  if (normalized.length !== room.config.wordLength) {
+    throw new RaceError("invalid-guess", "Not enough letters");
+  }
+  if (!isValidGuess(normalized, room.config)) {
+    throw new RaceError("invalid-guess", "Not in word list");
+  }
+
+  const evaluation = evaluateGuess(normalized, room.solution);
+  player.guesses.push(normalized);
+  player.rows.push(evaluation.letters.map((entry) => entry.state));
+  player.lastSeenAt = now;
+  player.lastActiveAt = now;
+
+  if (evaluation.isCorrect) {
+    player.result = "won";
+    player.finishedAt = now;
+    room.winnerId ??= player.id;
+    room.status = "finished";
+  } else if (player.guesses.length >= room.config.maxGuesses) {
+    player.result = "lost";
+    player.finishedAt = now;
+    finishIfEveryoneDone(room);
+  }
+
+  room.updatedAt = now;
+  return evaluation.letters;
+}
+
+export function toPublicRoom(room: RaceRoom, viewerToken?: string | null): PublicRaceRoom {
+  const viewer = findPlayerByToken(room, viewerToken);
+  const canSeeSolution = room.status === "finished" || (viewer && viewer.result !== "playing");
+
+  return {
+    id: room.id,
+    hostId: room.hostId,
+    status: room.status,
+    config: room.config,
+    players: room.players.map((player) => ({
+      id: player.id,
+      name: player.name,
+      rows: player.rows,
+      result: player.result,
+      finishedAt: player.finishedAt,
+    })),
+    winnerId: room.winnerId,
+    viewerId: viewer?.id ?? null,
+    viewerRows: viewer
+      ? viewer.guesses.map((guess) => evaluateGuess(guess, room.solution).letters)
+      : [],
+    solution: canSeeSolution ? room.solution : null,
+  };
+}
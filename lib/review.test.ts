@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_REVIEW_MIX_RATE,
+  ReviewCard,
+  ReviewQueue,
+  applyReviewResult,
+  createEmptyReviewQueue,
+  getDueWords,
+  getNextDueAt,
+  getReviewQuality,
+  normalizeReviewQueue,
+  scheduleReview,
+} from "./review";
+import type { GameHistoryEntry } from "./stats";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19);
+
+function card(overrides: Partial<ReviewCard> = {}): ReviewCard {
+  return {
+    word: "crane",
+    easiness: 2.5,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: NOW,
+    ...overrides,
+  };
+}
+
+function game(result: "won" | "lost", guessCount: number, solution = "crane"): GameHistoryEntry {
+  return {
+    id: `${solution}-${result}-${guessCount}`,
+    solution,
+    guesses: Array(guessCount).fill("slate"),
+    result,
+    timestamp: NOW,
+    mode: { wordLength: 5, maxGuesses: 6, hardMode: false },
+  };
+}
+
+describe("getReviewQuality", () => {
+  it.each([
+    { result: "lost", guesses: 6, quality: 1 },
+    { result: "won", guesses: 6, quality: 3 },
+    { result: "won", guesses: 5, quality: 3 },
+    { result: "won", guesses: 4, quality: 4 },
+    { result: "won", guesses: 3, quality: 5 },
+    { result: "won", guesses: 1, quality: 5 },
+  ] as const)("grades a $result in $guesses as $quality", ({ result, guesses, quality }) => {
+    expect(getReviewQuality(game(result, guesses))).toBe(quality);
+  });
+});
+
+describe("scheduleReview", () => {
+  it.each([
+    { quality: 5, easiness: 2.6 },
+    { quality: 4, easiness: 2.5 },
+    { quality: 3, easiness: 2.36 },
+    { quality: 1, easiness: 1.96 },
+  ] as const)("moves the easiness to $easiness on a grade of $quality", ({ quality, easiness }) => {
+    expect(scheduleReview(card(), quality, NOW)?.easiness).toBeCloseTo(easiness);
+  });
+
+  it("never lets the easiness drop below the floor", () => {
+    expect(scheduleReview(card({ easiness: 1.35 }), 1, NOW)?.easiness).toBe(1.3);
+  });
+
+  it("spaces passes out 1, 6, then interval × easiness days until the word is learned", () => {
+    const intervals: number[] = [];
+    let current: ReviewCard | null = card();
+    while (current) {
+      current = scheduleReview(current, 4, NOW);
+      if (current) {
+        intervals.push(current.interval);
+        expect(current.dueAt).toBe(NOW + current.interval * DAY);
+      }
+    }
+    expect(intervals).toEqual([1, 6, 15, 38]);
+  });
+
+  it("sends a lapse back to tomorrow and restarts its repetitions", () => {
+    const lapsed = scheduleReview(card({ interval: 15, repetitions: 3, lapses: 1 }), 1, NOW);
+    expect(lapsed).toMatchObject({ interval: 1, repetitions: 0, lapses: 2, dueAt: NOW + DAY });
+  });
+});
+
+describe("applyReviewResult", () => {
+  it("queues a lost word for tomorrow", () => {
+    const queue = applyReviewResult(createEmptyReviewQueue(), game("lost", 6));
+    expect(queue.cards).toEqual([
+      expect.objectContaining({ word: "crane", interval: 1, lapses: 1, dueAt: NOW + DAY }),
+    ]);
+  });
+
+  it("queues a hard-won word but not an easy one", () => {
+    expect(applyReviewResult(createEmptyReviewQueue(), game("won", 6)).cards).toHaveLength(1);
+    expect(applyReviewResult(createEmptyReviewQueue(), game("won", 4)).cards).toEqual([]);
+  });
+
+  it("reschedules a queued word and leaves the others alone", () => {
+    const other = card({ word: "cider" });
+    const queue = { ...createEmptyReviewQueue(), cards: [card({ repetitions: 1 }), other] };
+    const next = applyReviewResult(queue, game("won", 3), NOW + DAY);
+    expect(next.cards).toEqual([
+      other,
+      expect.objectContaining({ word: "crane", repetitions: 2, interval: 6 }),
+    ]);
+  });
+});
+
+describe("getDueWords", () => {
+  const queue: ReviewQueue = {
+    mixRate: DEFAULT_REVIEW_MIX_RATE,
+    cards: [
+      card({ word: "cider", dueAt: NOW - DAY }),
+      card({ word: "bird", dueAt: NOW - 2 * DAY }),
+      card({ word: "crane", dueAt: NOW + DAY }),
+    ],
+  };
+
+  it("lists due words, most overdue first", () => {
+    expect(getDueWords(queue, NOW)).toEqual(["bird", "cider"]);
+    expect(getDueWords(queue, NOW, 5)).toEqual(["cider"]);
+    expect(getNextDueAt(queue)).toBe(NOW - 2 * DAY);
+    expect(getNextDueAt(createEmptyReviewQueue())).toBeNull();
+  });
+});
+
+describe("normalizeReviewQueue", () => {
+  it("drops unreadable cards and clamps the mix rate", () => {
+    const raw = {
+      mixRate: 3,
+      cards: [card(), { ...card(), word: "Crane" }, { ...card(), dueAt: "soon" }],
+    } as unknown as ReviewQueue;
+    expect(normalizeReviewQueue(raw)).toEqual({ mixRate: 1, cards: [card()] });
+    expect(normalizeReviewQueue(null)).toEqual(createEmptyReviewQueue());
+  });
+});
@@ -0,0 +1,147 @@
+import type { GameHistoryEntry } from "./stats";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Share of new practice games that serve a due review word instead of a fresh pick. */
+export const DEFAULT_REVIEW_MIX_RATE = 0.2;
+export const REVIEW_MIX_RATES = [0, 0.1, 0.2, 0.35, 0.5];
+
+// SM-2 constants: every card starts at the default easiness and never drops below the floor.
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+/** Cards that would next come back after this many days are considered learned. */
+const MAX_REVIEW_INTERVAL_DAYS = 60;
+
+/** SM-2 grade from 0 (blackout) to 5 (perfect); anything below 3 counts as a lapse. */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewCard {
+  word: string;
+  easiness: number;
+  /** Days between the last review and the next one. */
+  interval: number;
+  /** Successful reviews in a row. */
+  repetitions: number;
+  lapses: number;
+  dueAt: number;
+}
+
+export interface ReviewQueue {
+  cards: ReviewCard[];
+  mixRate: number;
+}
+
+export function createEmptyReviewQueue(): ReviewQueue {
+  return { cards: [], mixRate: DEFAULT_REVIEW_MIX_RATE };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function normalizeReviewQueue(raw: Partial<ReviewQueue> | null | undefined): ReviewQueue {
+  const cards = Array.isArray(raw?.cards)
+    ? raw.cards.filter(
+        (card): card is ReviewCard =>
+          typeof card?.word === "string" &&
+          /^[a-z]+$/.test(card.word) &&
+          isFiniteNumber(card.easiness) &&
+          isFiniteNumber(card.interval) &&
+          isFiniteNumber(card.repetitions) &&
+          isFiniteNumber(card.lapses) &&
+          isFiniteNumber(card.dueAt),
+      )
+    : [];
+  const mixRate = isFiniteNumber(raw?.mixRate)
+    ? Math.min(1, Math.max(0, raw.mixRate))
+    : DEFAULT_REVIEW_MIX_RATE;
+  return { cards, mixRate };
+}
+
+/**
+ * Grades a finished game: a loss is a lapse, a win on one of the last two guesses is a
+ * hard-won pass, and anything quicker is an easy or perfect recall.
+ */
+export function getReviewQuality(entry: GameHistoryEntry): ReviewQuality {
+  if (entry.result === "lost") return 1;
+  const guessCount = entry.guesses.length;
+  if (guessCount >= entry.mode.maxGuesses - 1) return 3;
+  return guessCount <= Math.ceil(entry.mode.maxGuesses / 2) ? 5 : 4;
+}
+
+/**
+ * Applies one SM-2 step. Returns `null` once the word is learned and can leave the queue.
+ */
+export function scheduleReview(
+  card: ReviewCard,
+  quality: ReviewQuality,
+  now: number = Date.now(),
+): ReviewCard | null {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    card.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  if (quality < 3) {
+    return {
+      ...card,
+      easiness,
+      interval: 1,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      dueAt: now + MS_PER_DAY,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easiness);
+  if (interval > MAX_REVIEW_INTERVAL_DAYS) return null;
+  return { ...card, easiness, interval, repetitions, dueAt: now + interval * MS_PER_DAY };
+}
+
+/**
+ * Reschedules a word already in the queue, or enqueues a newly lost or hard-won word.
+ */
+export function applyReviewResult(
+  queue: ReviewQueue,
+  entry: GameHistoryEntry,
+  now: number = entry.timestamp,
+): ReviewQueue {
+  const quality = getReviewQuality(entry);
+  const existing = queue.cards.find((card) => card.word === entry.solution);
+  if (!existing && quality > 3) return queue;
+
+  const card = existing ?? {
+    word: entry.solution,
+    easiness: INITIAL_EASINESS,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+  };
+  const next = scheduleReview(card, quality, now);
+  const others = queue.cards.filter((other) => other.word !== entry.solution);
+  return { ...queue, cards: next ? [...others, next] : others };
+}
+
+/** Due words, most overdue first, optionally limited to one word length. */
+export function getDueWords(
+  queue: ReviewQueue,
+  now: number = Date.now(),
+  wordLength?: number,
+): string[] {
+  return queue.cards
+    .filter(
+      (card) => card.dueAt <= now && (wordLength === undefined || card.word.length === wordLength),
+    )
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .map((card) => card.word);
+}
+
+export function getNextDueAt(queue: ReviewQueue): number | null {
+  return queue.cards.reduce<number | null>(
+    (next, card) => (next === null || card.dueAt < next ? card.dueAt : next),
+    null,
+  );
+}
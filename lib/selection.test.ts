@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  RECENT_SOLUTION_WINDOW,
+  getRecentSolutions,
+  getWordMetadata,
+  matchesFilter,
+  pickSolutionIndex,
+} from "./selection";
+import { getWordBank } from "./word-bank";
+
+const CONFIG = { wordLength: 5, maxGuesses: 6 };
+
+/** A random source that replays `values`, then keeps returning the last one. */
+function sequence(...values: number[]) {
+  let call = 0;
+  return () => values[Math.min(call++, values.length - 1)];
+}
+
+function wordAt(index: number) {
+  return getWordBank(CONFIG.wordLength).solutions[index];
+}
+
+describe("getWordMetadata", () => {
+  it("keeps each word at its solution slot", () => {
+    const { solutions } = getWordBank(CONFIG.wordLength);
+    const metadata = getWordMetadata(CONFIG.wordLength);
+    expect(metadata.every((entry) => solutions[entry.index] === entry.word)).toBe(true);
+    expect(metadata.find((entry) => entry.word === "geese")).toMatchObject({
+      repeatedLetters: true,
+      rareLetters: [],
+    });
+    expect(metadata.find((entry) => entry.word === "pizza")?.rareLetters).toEqual(["z"]);
+  });
+});
+
+describe("pickSolutionIndex", () => {
+  afterEach(() => {
+    vi.doUnmock("./word-bank");
+    vi.resetModules();
+  });
+
+  it("only picks words that match the filter", () => {
+    for (let step = 0; step < 20; step += 1) {
+      const index = pickSolutionIndex(CONFIG, () => step / 20, { filter: "rare-letters" });
+      const entry = getWordMetadata(CONFIG.wordLength).find((word) => word.index === index);
+      expect(entry && matchesFilter(entry, "rare-letters")).toBe(true);
+    }
+  });
+
+  it("skips recently played words", () => {
+    const first = pickSolutionIndex(CONFIG, () => 0);
+    const next = pickSolutionIndex(CONFIG, () => 0, { recent: [wordAt(first)] });
+    expect(next).not.toBe(first);
+    expect(pickSolutionIndex(CONFIG, () => 0, { recent: [wordAt(first), wordAt(next)] })).not.toBe(
+      next,
+    );
+  });
+
+  it("lets a word come back once it falls out of the recent window", () => {
+    const first = pickSolutionIndex(CONFIG, () => 0);
+    const others = getWordMetadata(CONFIG.wordLength)
+      .filter((entry) => entry.index !== first)
+      .map((entry) => entry.word);
+    const recent = [...others.slice(0, RECENT_SOLUTION_WINDOW), wordAt(first)];
+    expect(pickSolutionIndex(CONFIG, () => 0, { recent })).toBe(first);
+  });
+
+  it("shrinks the window when the filtered pool is smaller than it", async () => {
+    vi.doMock("./word-bank", () => ({
+      RETIRED_SOLUTION: "",
+      getWordBank: () => ({
+        solutions: ["able", "", "acid", "axis"],
+        difficulty: ["easy", null, "easy", "hard"],
+      }),
+    }));
+    const fresh = await import("./selection");
+    const config = { wordLength: 4, maxGuesses: 6 };
+    // The easy pool is ABLE and ACID; only the newest one of them can be held back.
+    expect(fresh.pickSolutionIndex(config, () => 0, { filter: "easy", recent: ["able"] })).toBe(2);
+    expect(
+      fresh.pickSolutionIndex(config, () => 0, { filter: "easy", recent: ["acid", "able"] }),
+    ).toBe(0);
+  });
+
+  it("serves a due review word at the review rate, whatever the filter", () => {
+    const review = { words: ["pizza"], rate: 0.2 };
+    const pizza = getWordMetadata(CONFIG.wordLength).find((entry) => entry.word === "pizza");
+    expect(pickSolutionIndex(CONFIG, sequence(0.1, 0), { filter: "easy", review })).toBe(
+      pizza?.index,
+    );
+    expect(pickSolutionIndex(CONFIG, sequence(0.3, 0), { review })).not.toBe(pizza?.index);
+    expect(pickSolutionIndex(CONFIG, sequence(0, 0), { review: { ...review, rate: 0 } })).not.toBe(
+      pizza?.index,
+    );
+  });
+});
+
+describe("getRecentSolutions", () => {
+  it("keeps the newest solutions of one length", () => {
+    const history = ["crane", "bird", "cider", "slate"].map((solution) => ({ solution }));
+    expect(getRecentSolutions(history, 5)).toEqual(["crane", "cider", "slate"]);
+    expect(getRecentSolutions(history, 5, 2)).toEqual(["crane", "cider"]);
+  });
+});
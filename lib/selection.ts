@@ -0,0 +1,119 @@
+import type { GameConfig } from "./wordle";
+import type { RandomSource } from "./puzzle";
+import { Difficulty, RETIRED_SOLUTION, getWordBank } from "./word-bank";
+
+/** Narrows the practice pool to drill one kind of word. */
+export type WordFilter = "any" | Difficulty | "repeated-letters" | "rare-letters";
+
+export const WORD_FILTERS: { value: WordFilter; label: string }[] = [
+  { value: "any", label: "Any word" },
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+  { value: "repeated-letters", label: "Repeated letters" },
+  { value: "rare-letters", label: "Rare letters" },
+];
+
+/** How many recently played solutions are kept out of the next pick. */
+export const RECENT_SOLUTION_WINDOW = 50;
+
+// The least common letters in English answers; one is enough to make a word awkward.
+const RARE_LETTERS = new Set("jkqvxz");
+
+export interface WordMetadata {
+  word: string;
+  /** Position in the solution list, which is what puzzle IDs encode. */
+  index: number;
+  difficulty: Difficulty;
+  repeatedLetters: boolean;
+  rareLetters: string[];
+}
+
+export interface SelectionOptions {
+  filter?: WordFilter;
+  /** Recently played solutions, newest first. */
+  recent?: readonly string[];
+  /** Due review words, served instead of a fresh pick at `rate`, regardless of the filter. */
+  review?: { words: readonly string[]; rate: number };
+}
+
+const metadataCache = new Map<number, WordMetadata[]>();
+
+/** Metadata for every pickable solution; retired slots are left out but keep their indexes. */
+export function getWordMetadata(wordLength: number): readonly WordMetadata[] {
+  let metadata = metadataCache.get(wordLength);
+  if (!metadata) {
+    const { solutions, difficulty } = getWordBank(wordLength);
+    metadata = solutions.flatMap((word, index) =>
+      word === RETIRED_SOLUTION
+        ? []
+        : [
+            {
+              word,
+              index,
+              difficulty: difficulty[index] ?? "medium",
+              repeatedLetters: new Set(word).size < word.length,
+              rareLetters: [...new Set(word)].filter((letter) => RARE_LETTERS.has(letter)),
+            },
+          ],
+    );
+    metadataCache.set(wordLength, metadata);
+  }
+  return metadata;
+}
+
+export function matchesFilter(entry: WordMetadata, filter: WordFilter): boolean {
+  switch (filter) {
+    case "any":
+      return true;
+    case "repeated-letters":
+      return entry.repeatedLetters;
+    case "rare-letters":
+      return entry.rareLetters.length > 0;
+    default:
+      return entry.difficulty === filter;
+  }
+}
+
+export function isWordFilter(value: unknown): value is WordFilter {
+  return WORD_FILTERS.some((option) => option.value === value);
+}
+
+/**
+ * Picks a solution index for a new game. Due review words come up at the configured rate;
+ * otherwise only words matching the filter are eligible, and the most recent plays are skipped,
+ * shrinking that window when the pool is too small to honor it.
+ */
+export function pickSolutionIndex(
+  config: GameConfig,
+  random: RandomSource = Math.random,
+  { filter = "any", recent = [], review }: SelectionOptions = {},
+): number {
+  const metadata = getWordMetadata(config.wordLength);
+  const dueWords = new Set(review?.words);
+  const due = metadata.filter((entry) => dueWords.has(entry.word));
+  if (due.length > 0 && random() < (review?.rate ?? 0)) {
+    return due[Math.floor(random() * due.length)].index;
+  }
+
+  const pool = metadata.filter((entry) => matchesFilter(entry, filter));
+  if (pool.length === 0) return metadata[Math.floor(random() * metadata.length)].index;
+
+  // Excluding at most `pool.length - 1` words always leaves something to pick.
+  const window = Math.min(RECENT_SOLUTION_WINDOW, pool.length - 1);
+  const excluded = new Set(recent.slice(0, window));
+  const eligible = pool.filter((entry) => !excluded.has(entry.word));
+  return eligible[Math.floor(random() * eligible.length)].index;
+}
+
+/** Solutions of the given length from a newest-first game history. */
+export function getRecentSolutions(
+  history: readonly { solution: string }[],
+  wordLength: number,
+  limit: number = RECENT_SOLUTION_WINDOW,
+): string[] {
+  return history
+    .map((entry) => entry.solution)
+    .filter((solution) => solution.length === wordLength)
+    .slice(0, limit);
+}
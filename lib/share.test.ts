@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { buildShareText, toEmojiRow } from "./share";
+import { evaluateGuess, getEmptyBoard } from "./wordle";
+
+function playBoard(solution: string, guesses: string[], maxGuesses = 6) {
+  const board = getEmptyBoard({ wordLength: solution.length, maxGuesses });
+  guesses.forEach((guess, index) => {
+    board[index] = evaluateGuess(guess, solution).letters;
+  });
+  return board;
+}
+
+describe("toEmojiRow", () => {
+  const row = evaluateGuess("crane", "cider").letters;
+
+  it("maps each tile to its square", () => {
+    expect(toEmojiRow(row)).toBe("🟩🟨⬛⬛🟨");
+  });
+
+  it("swaps in orange and blue for the colorblind palette", () => {
+    expect(toEmojiRow(row, "colorblind")).toBe("🟧🟦⬛⬛🟦");
+  });
+});
+
+describe("buildShareText", () => {
+  it("heads a win with the puzzle ID and guess count, then one row per guess in order", () => {
+    const text = buildShareText({
+      board: playBoard("cider", ["crane", "cried", "cider"]),
+      didWin: true,
+      maxGuesses: 6,
+      puzzleLabel: "0aug8dt",
+    });
+    expect(text.split("\n")).toEqual([
+      "Wordle Practice #0aug8dt 3/6",
+      "",
+      "🟩🟨⬛⬛🟨",
+      "🟩🟨🟨🟩🟨",
+      "🟩🟩🟩🟩🟩",
+    ]);
+  });
+
+  it("scores a loss as X and leaves out the empty rows", () => {
+    const guesses = ["crane", "slate", "moist", "pound", "fight", "bulky"];
+    const text = buildShareText({
+      board: playBoard("cider", guesses),
+      didWin: false,
+      maxGuesses: 6,
+    });
+    const [header, blank, ...rows] = text.split("\n");
+    expect(header).toBe("Wordle Practice X/6");
+    expect(blank).toBe("");
+    expect(rows).toHaveLength(6);
+    expect(rows[0]).toBe("🟩🟨⬛⬛🟨");
+  });
+
+  it("flags hard mode, a daily and an unusual word length", () => {
+    const text = buildShareText({
+      board: playBoard("bird", ["bird"], 8),
+      didWin: true,
+      maxGuesses: 8,
+      puzzleLabel: "2026-10-19",
+      hardMode: true,
+      daily: true,
+      palette: "colorblind",
+    });
+    expect(text).toBe("Wordle Practice Daily #2026-10-19 1/8* (4 letters, hard mode)\n\n🟧🟧🟧🟧");
+  });
+});
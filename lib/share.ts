@@ -0,0 +1,55 @@
+import { DEFAULT_GAME_CONFIG, LetterEvaluation, LetterState, isCommittedRow } from "./wordle";
+
+export type SharePalette = "standard" | "colorblind";
+
+export interface ShareOptions {
+  board: LetterEvaluation[][];
+  didWin: boolean;
+  maxGuesses: number;
+  /** Shown after the title: a puzzle ID or a daily date. */
+  puzzleLabel?: string;
+  hardMode?: boolean;
+  daily?: boolean;
+  palette?: SharePalette;
+}
+
+const SHARE_TITLE = "Wordle Practice";
+
+// The colorblind variant follows the familiar high-contrast scheme: orange hits, blue misses.
+const PALETTES: Record<SharePalette, Record<LetterState, string>> = {
+  standard: { correct: "🟩", present: "🟨", absent: "⬛", empty: "⬜" },
+  colorblind: { correct: "🟧", present: "🟦", absent: "⬛", empty: "⬜" },
+};
+
+export function toEmojiRow(row: LetterEvaluation[], palette: SharePalette = "standard"): string {
+  return row.map((entry) => PALETTES[palette][entry.state]).join("");
+}
+
+/**
+ * Builds the spoiler-free result text: a header with the score and mode flags, then one
+ * emoji row per committed guess.
+ */
+export function buildShareText({
+  board,
+  didWin,
+  maxGuesses,
+  puzzleLabel,
+  hardMode = false,
+  daily = false,
+  palette = "standard",
+}: ShareOptions): string {
+  const rows = board.filter(isCommittedRow);
+  const wordLength = rows[0]?.length ?? DEFAULT_GAME_CONFIG.wordLength;
+  const score = `${didWin ? rows.length : "X"}/${maxGuesses}${hardMode ? "*" : ""}`;
+
+  const title = [daily ? `${SHARE_TITLE} Daily` : SHARE_TITLE, puzzleLabel ? `#${puzzleLabel}` : ""]
+    .filter(Boolean)
+    .join(" ");
+  const flags = [
+    wordLength !== DEFAULT_GAME_CONFIG.wordLength ? `${wordLength} letters` : "",
+    hardMode ? "hard mode" : "",
+  ].filter(Boolean);
+
+  const header = `${title} ${score}${flags.length > 0 ? ` (${flags.join(", ")})` : ""}`;
+  return [header, "", ...rows.map((row) => toEmojiRow(row, palette))].join("\n");
+}
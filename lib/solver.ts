@@ -0,0 +1,204 @@
+import {
+  DEFAULT_GAME_CONFIG,
+  GameConfig,
+  LetterEvaluation,
+  evaluateGuess,
+  getHardModeViolation,
+} from "./wordle";
+import { getWordBank } from "./word-bank";
+
+export interface GuessSuggestion {
+  word: string;
+  /** Expected information in bits, averaged over the remaining candidates. */
+  entropy: number;
+  /** Expected number of candidates left after playing this guess. */
+  expectedRemaining: number;
+  /** Whether the guess could itself be the solution. */
+  isCandidate: boolean;
+}
+
+export interface HintResult {
+  candidates: string[];
+  suggestions: GuessSuggestion[];
+}
+
+export interface SolverOptions {
+  config?: GameConfig;
+  limit?: number;
+  hardMode?: boolean;
+}
+
+// Upper bound on evaluateGuess calls per ranking so hints stay interactive on the client.
+const EVALUATION_BUDGET = 120_000;
+const MIN_GUESS_POOL = 40;
+
+function getRowWord(row: LetterEvaluation[]): string {
+  return row.map((entry) => entry.letter).join("");
+}
+
+/**
+ * Encodes the feedback from `evaluateGuess` as a string key so guesses can be bucketed.
+ */
+export function getFeedbackKey(guess: string, solution: string): string {
+  return evaluateGuess(guess, solution)
+    .letters.map((entry) => entry.state[0])
+    .join("");
+}
+
+function getRowKey(row: LetterEvaluation[]): string {
+  return row.map((entry) => entry.state[0]).join("");
+}
+
+/**
+ * Narrows the solution list to the words that would have produced every row of feedback.
+ */
+export function getCandidateSolutions(
+  history: LetterEvaluation[][],
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+): string[] {
+  return filterCandidates(getWordBank(config.wordLength).answers, history);
+}
+
+export function filterCandidates(
+  candidates: readonly string[],
+  history: LetterEvaluation[][],
+): string[] {
+  const rows = history.map((row) => ({ word: getRowWord(row), key: getRowKey(row) }));
+  return candidates.filter((candidate) =>
+    rows.every((row) => getFeedbackKey(row.word, candidate) === row.key),
+  );
+}
+
+/**
+ * Buckets the candidates by the feedback `guess` would receive against each of them.
+ */
+export function partitionCandidates(
+  guess: string,
+  candidates: readonly string[],
+): Map<string, string[]> {
+  const buckets = new Map<string, string[]>();
+  for (const candidate of candidates) {
+    const key = getFeedbackKey(guess, candidate);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(candidate);
+    } else {
+      buckets.set(key, [candidate]);
+    }
+  }
+  return buckets;
+}
+
+export function scoreGuess(guess: string, candidates: readonly string[]): GuessSuggestion {
+  const total = candidates.length;
+  let entropy = 0;
+  let expectedRemaining = 0;
+
+  if (total > 0) {
+    for (const bucket of partitionCandidates(guess, candidates).values()) {
+      const probability = bucket.length / total;
+      entropy -= probability * Math.log2(probability);
+      expectedRemaining += probability * bucket.length;
+    }
+  }
+
+  return {
+    word: guess,
+    entropy,
+    expectedRemaining,
+    isCandidate: candidates.includes(guess),
+  };
+}
+
+function compareSuggestions(a: GuessSuggestion, b: GuessSuggestion): number {
+  if (b.entropy !== a.entropy) return b.entropy - a.entropy;
+  if (a.isCandidate !== b.isCandidate) return a.isCandidate ? -1 : 1;
+  return a.word.localeCompare(b.word);
+}
+
+/**
+ * Cheap pre-filter: prefers guesses whose distinct letters cover the most candidates, so the
+ * exact entropy pass only runs on a pool that fits the evaluation budget.
+ */
+function selectGuessPool(guesses: readonly string[], candidates: readonly string[]): string[] {
+  const poolSize = Math.max(MIN_GUESS_POOL, Math.floor(EVALUATION_BUDGET / candidates.length));
+  if (guesses.length <= poolSize) return guesses.slice();
+
+  const letterCoverage: Record<string, number> = {};
+  for (const candidate of candidates) {
+    for (const letter of new Set(candidate)) {
+      letterCoverage[letter] = (letterCoverage[letter] ?? 0) + 1;
+    }
+  }
+
+  const coverageScore = (word: string) => {
+    let score = 0;
+    for (const letter of new Set(word)) {
+      // Letters every candidate shares reveal nothing, so weight by how evenly they split.
+      const share = (letterCoverage[letter] ?? 0) / candidates.length;
+      score += share * (1 - share);
+    }
+    return score;
+  };
+
+  return guesses
+    .map((word) => ({ word, score: coverageScore(word) }))
+    .sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))
+    .slice(0, poolSize)
+    .map((entry) => entry.word);
+}
+
+export function rankGuesses(
+  candidates: readonly string[],
+  history: LetterEvaluation[][] = [],
+  options: SolverOptions = {},
+): GuessSuggestion[] {
+  const { config = DEFAULT_GAME_CONFIG, limit = 5, hardMode = false } = options;
+  if (candidates.length === 0) return [];
+
+  // With one or two candidates left, guessing a candidate is always at least as good.
+  if (candidates.length <= 2) {
+    return candidates
+      .map((word) => scoreGuess(word, candidates))
+      .sort(compareSuggestions)
+      .slice(0, limit);
+  }
+
+  let guesses = [...getWordBank(config.wordLength).valid];
+  if (hardMode) {
+    guesses = guesses.filter((word) => getHardModeViolation(word, history) === null);
+  }
+
+  const pool = new Set(selectGuessPool(guesses, candidates));
+  for (const candidate of candidates.slice(0, MIN_GUESS_POOL)) {
+    pool.add(candidate);
+  }
+
+  return [...pool]
+    .map((word) => scoreGuess(word, candidates))
+    .sort(compareSuggestions)
+    .slice(0, limit);
+}
+
+// The opening ranking only depends on the word bank, so it is computed once per length and
+// again only if the guess dictionary has loaded since.
+const openingCache = new Map<string, GuessSuggestion[]>();
+
+/**
+ * Returns the remaining candidates and the top-ranked next guesses for the feedback so far.
+ */
+export function getHint(history: LetterEvaluation[][], options: SolverOptions = {}): HintResult {
+  const candidates = getCandidateSolutions(history, options.config);
+  if (history.length > 0) {
+    return { candidates, suggestions: rankGuesses(candidates, history, options) };
+  }
+
+  const { config = DEFAULT_GAME_CONFIG, limit = 5 } = options;
+  const cacheKey = `${config.wordLength}:${getWordBank(config.wordLength).valid.size}`;
+  let suggestions = openingCache.get(cacheKey);
+  if (!suggestions || suggestions.length < limit) {
+    suggestions = rankGuesses(candidates, history, { ...options, limit: Math.max(limit, 10) });
+    openingCache.set(cacheKey, suggestions);
+  }
+  return { candidates, suggestions: suggestions.slice(0, limit) };
+}
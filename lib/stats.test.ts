@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  GameHistoryEntry,
+  GameMode,
+  LEGACY_STATS_STORAGE_KEY,
+  STATS_STORAGE_KEY,
+  StatsStorage,
+  createEmptyStatsStore,
+  getDailyStats,
+  getFastestSolves,
+  getVariantStats,
+  loadStatsStore,
+  recordGame,
+} from "./stats";
+
+const CLASSIC: GameMode = { wordLength: 5, maxGuesses: 6, hardMode: false };
+
+function createStorage(entries: Record<string, string> = {}) {
+  const items = new Map(Object.entries(entries));
+  const storage: StatsStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    key: (index) => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+  return { storage, items };
+}
+
+function entry(result: "won" | "lost", guesses: string[], mode: Partial<GameMode> = {}) {
+  return {
+    id: `${result}-${guesses.length}-${mode.dailyKey ?? ""}`,
+    solution: "crane",
+    guesses,
+    result,
+    timestamp: 0,
+    mode: { ...CLASSIC, ...mode },
+  } satisfies GameHistoryEntry;
+}
+
+function playDailies(results: [string, "won" | "lost"][]) {
+  return results.reduce(
+    (store, [dailyKey, result]) => recordGame(store, entry(result, ["crane"], { dailyKey })),
+    createEmptyStatsStore(),
+  );
+}
+
+describe("loadStatsStore", () => {
+  it("migrates the legacy per-variant counters once and saves the result", () => {
+    const { storage, items } = createStorage({
+      [LEGACY_STATS_STORAGE_KEY]: JSON.stringify({ totalPlayed: 4, totalWon: 3, maxStreak: 2 }),
+      [`${LEGACY_STATS_STORAGE_KEY}/6x8`]: JSON.stringify({ totalPlayed: 1, currentStreak: -3 }),
+      [`${LEGACY_STATS_STORAGE_KEY}/4x6`]: "{not json",
+    });
+
+    const store = loadStatsStore(storage);
+    expect(getVariantStats(store, CLASSIC)).toMatchObject({ totalPlayed: 4, totalWon: 3 });
+    expect(getVariantStats(store, { wordLength: 6, maxGuesses: 8 })).toMatchObject({
+      totalPlayed: 1,
+      currentStreak: 0,
+      guessDistribution: Array(8).fill(0),
+    });
+    expect(store.variants["4x6"]).toBeUndefined();
+    expect(JSON.parse(items.get(STATS_STORAGE_KEY) ?? "null")).toEqual(store);
+  });
+
+  it("leaves a store from another version untouched", () => {
+    const newer = JSON.stringify({ version: 99, history: [entry("won", ["crane"])] });
+    const { storage, items } = createStorage({
+      [STATS_STORAGE_KEY]: newer,
+      [LEGACY_STATS_STORAGE_KEY]: JSON.stringify({ totalPlayed: 4 }),
+    });
+
+    expect(loadStatsStore(storage)).toEqual(createEmptyStatsStore());
+    expect(items.get(STATS_STORAGE_KEY)).toBe(newer);
+  });
+
+  it("drops history entries that can't be read back", () => {
+    const modeless = { ...entry("won", ["crane"]), mode: undefined };
+    const kept = { ...entry("won", ["slate", "crane"]), durationMs: 5000 };
+    const { storage } = createStorage({
+      [STATS_STORAGE_KEY]: JSON.stringify({
+        ...createEmptyStatsStore(),
+        history: [modeless, { ...kept, guesses: "crane" }, kept],
+      }),
+    });
+
+    const { history } = loadStatsStore(storage);
+    expect(history).toEqual([kept]);
+    expect(getFastestSolves(history, CLASSIC)).toEqual([kept]);
+  });
+});
+
+describe("recordGame", () => {
+  it("counts wins into the guess distribution and resets the streak on a loss", () => {
+    const store = [
+      entry("won", ["slate", "crane"]),
+      entry("won", ["crane"], { hardMode: true }),
+      entry("lost", ["a", "b", "c", "d", "e", "f"]),
+      entry("won", ["slate", "crane"]),
+    ].reduce(recordGame, createEmptyStatsStore());
+
+    expect(getVariantStats(store, CLASSIC)).toEqual({
+      totalPlayed: 4,
+      totalWon: 3,
+      currentStreak: 1,
+      maxStreak: 2,
+      hardModeWins: 1,
+      guessDistribution: [1, 2, 0, 0, 0, 0],
+    });
+    expect(store.history).toHaveLength(4);
+  });
+
+  it("keeps a daily streak only across consecutive days", () => {
+    const store = playDailies([
+      ["2026-10-17", "won"],
+      ["2026-10-18", "won"],
+      ["2026-10-20", "won"],
+    ]);
+    expect(store.daily).toMatchObject({ currentStreak: 1, maxStreak: 2 });
+    expect(store.variants).toEqual({});
+  });
+
+  it("counts each daily once", () => {
+    const store = playDailies([
+      ["2026-10-18", "won"],
+      ["2026-10-18", "lost"],
+    ]);
+    expect(store.daily).toMatchObject({ totalPlayed: 1, totalWon: 1, currentStreak: 1 });
+    expect(store.daily.results["2026-10-18"].result).toBe("won");
+  });
+});
+
+describe("getDailyStats", () => {
+  it("shows the streak until a day is missed", () => {
+    const store = playDailies([
+      ["2026-10-17", "won"],
+      ["2026-10-18", "won"],
+    ]);
+    expect(getDailyStats(store, "2026-10-18").currentStreak).toBe(2);
+    expect(getDailyStats(store, "2026-10-19").currentStreak).toBe(2);
+    expect(getDailyStats(store, "2026-10-20")).toMatchObject({ currentStreak: 0, maxStreak: 2 });
+  });
+});
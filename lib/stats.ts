@@ -0,0 +1,415 @@
+import { DEFAULT_GAME_CONFIG, GameConfig, getVariantKey, normalizeGameConfig } from "./wordle";
+import { getPreviousDailyKey } from "./daily";
+import {
+  ReviewQueue,
+  applyReviewResult,
+  createEmptyReviewQueue,
+  normalizeReviewQueue,
+} from "./review";
+import type { TimedRun } from "./timer";
+import { writeStorage } from "./storage";
+
+export const LEGACY_STATS_STORAGE_KEY = "wordle-practice/stats";
+export const STATS_STORAGE_KEY = "wordle-practice/stats-v2";
+export const STATS_VERSION = 2;
+export const MAX_HISTORY_ENTRIES = 500;
+export const MAX_TIMED_RUNS = 50;
+
+export type StatsStorage = Pick<Storage, "getItem" | "setItem" | "key" | "length">;
+
+export interface GameStats {
+  totalPlayed: number;
+  totalWon: number;
+  currentStreak: number;
+  maxStreak: number;
+  hardModeWins: number;
+  /** Wins bucketed by guess count; index 0 holds one-guess wins. */
+  guessDistribution: number[];
+}
+
+export interface GameMode extends GameConfig {
+  hardMode: boolean;
+  /** Calendar date (`YYYY-MM-DD`) of the daily challenge this game was, if any. */
+  dailyKey?: string;
+  /** Simultaneous boards in a Dordle or Quordle game; absent for single-board games. */
+  boards?: number;
+}
+
+export interface GameHistoryEntry {
+  id: string;
+  solution: string;
+  guesses: string[];
+  result: "won" | "lost";
+  timestamp: number;
+  mode: GameMode;
+  /** Share ID of the puzzle, when the solution came from a shareable word list slot. */
+  puzzleId?: string;
+  /** Active play time, excluding pauses; missing when the game was resumed after a reload. */
+  durationMs?: number;
+  /** Active play time at which each guess was submitted. */
+  guessTimesMs?: number[];
+}
+
+export interface GameTiming {
+  durationMs: number;
+  guessTimesMs: number[];
+}
+
+export interface DailyResult {
+  result: "won" | "lost";
+  guesses: string[];
+}
+
+/** Daily challenge counters, kept apart so practice games never touch the daily streak. */
+export interface DailyStats extends GameStats {
+  lastWonKey: string | null;
+  results: Record<string, DailyResult>;
+}
+
+export interface StatsStore {
+  version: typeof STATS_VERSION;
+  /** Practice counters keyed by `getStatsKey`. */
+  variants: Record<string, GameStats>;
+  daily: DailyStats;
+  /** Finished games, newest first. */
+  history: GameHistoryEntry[];
+  /** Lost and hard-won solutions scheduled to come back for practice. */
+  review: ReviewQueue;
+  /** Finished timed runs, newest first. */
+  runs: TimedRun[];
+}
+
+export function createEmptyStats(maxGuesses: number = DEFAULT_GAME_CONFIG.maxGuesses): GameStats {
+  return {
+    totalPlayed: 0,
+    totalWon: 0,
+    currentStreak: 0,
+    maxStreak: 0,
+    hardModeWins: 0,
+    guessDistribution: Array.from({ length: maxGuesses }, () => 0),
+  };
+}
+
+export function createEmptyDailyStats(): DailyStats {
+  return { ...createEmptyStats(), lastWonKey: null, results: {} };
+}
+
+export function createEmptyStatsStore(): StatsStore {
+  return {
+    version: STATS_VERSION,
+    variants: {},
+    daily: createEmptyDailyStats(),
+    history: [],
+    review: createEmptyReviewQueue(),
+    runs: [],
+  };
+}
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+function normalizeStats(raw: Partial<GameStats> | null | undefined, maxGuesses: number): GameStats {
+  const distribution = Array.isArray(raw?.guessDistribution) ? raw.guessDistribution : [];
+  return {
+    totalPlayed: toCount(raw?.totalPlayed),
+    totalWon: toCount(raw?.totalWon),
+    currentStreak: toCount(raw?.currentStreak),
+    maxStreak: toCount(raw?.maxStreak),
+    hardModeWins: toCount(raw?.hardModeWins),
+    guessDistribution: Array.from({ length: maxGuesses }, (_, index) =>
+      toCount(distribution[index]),
+    ),
+  };
+}
+
+function parseVariantKey(variantKey: string): GameConfig {
+  const [wordLength, maxGuesses] = variantKey.split("x").map(Number);
+  return normalizeGameConfig({ wordLength, maxGuesses });
+}
+
+function readJson(storage: StatsStorage, key: string): unknown {
+  const stored = storage.getItem(key);
+  return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * Builds a v2 store from the unversioned per-variant keys written before history existed.
+ * The classic variant lived at `wordle-practice/stats`, the others at `wordle-practice/stats/<variant>`.
+ */
+export function migrateLegacyStats(storage: StatsStorage, variantKeys: string[]): StatsStore {
+  const store = createEmptyStatsStore();
+  const defaultKey = getVariantKey(DEFAULT_GAME_CONFIG);
+
+  for (const variantKey of new Set([defaultKey, ...variantKeys])) {
+    const key =
+      variantKey === defaultKey
+        ? LEGACY_STATS_STORAGE_KEY
+        : `${LEGACY_STATS_STORAGE_KEY}/${variantKey}`;
+    try {
+      const legacy = readJson(storage, key) as Partial<GameStats> | null;
+      if (legacy) {
+        store.variants[variantKey] = normalizeStats(legacy, parseVariantKey(variantKey).maxGuesses);
+      }
+    } catch {
+      // Skip unreadable legacy entries rather than losing the whole migration.
+    }
+  }
+
+  return store;
+}
+
+function normalizeDailyStats(raw: Partial<DailyStats> | null | undefined): DailyStats {
+  const results: Record<string, DailyResult> = {};
+  for (const [dailyKey, entry] of Object.entries(raw?.results ?? {})) {
+    if ((entry?.result === "won" || entry?.result === "lost") && Array.isArray(entry.guesses)) {
+      results[dailyKey] = { result: entry.result, guesses: entry.guesses };
+    }
+  }
+  return {
+    ...normalizeStats(raw, DEFAULT_GAME_CONFIG.maxGuesses),
+    lastWonKey: typeof raw?.lastWonKey === "string" ? raw.lastWonKey : null,
+    results,
+  };
+}
+
+function normalizeStore(raw: Partial<StatsStore>): StatsStore {
+  const variants: Record<string, GameStats> = {};
+  for (const [variantKey, stats] of Object.entries(raw.variants ?? {})) {
+    variants[variantKey] = normalizeStats(stats, parseVariantKey(variantKey).maxGuesses);
+  }
+  const history = Array.isArray(raw.history)
+    ? raw.history.filter(
+        (entry): entry is GameHistoryEntry =>
+          typeof entry?.solution === "string" &&
+          Array.isArray(entry.guesses) &&
+          typeof entry.mode?.wordLength === "number" &&
+          typeof entry.mode.maxGuesses === "number",
+      )
+    : [];
+  const runs = Array.isArray(raw.runs)
+    ? raw.runs.filter(
+        (run): run is TimedRun =>
+          typeof run?.settingId === "string" &&
+          typeof run.solved === "number" &&
+          typeof run.totalMs === "number",
+      )
+    : [];
+  return {
+    version: STATS_VERSION,
+    variants,
+    daily: normalizeDailyStats(raw.daily),
+    history,
+    review: normalizeReviewQueue(raw.review),
+    runs,
+  };
+}
+
+function listLegacyVariantKeys(storage: StatsStorage): string[] {
+  const keys: string[] = [];
+  const prefix = `${LEGACY_STATS_STORAGE_KEY}/`;
+  for (let i = 0; i < storage.length; i += 1) {
+    const key = storage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key.slice(prefix.length));
+  }
+  return keys;
+}
+
+/**
+ * Reads the versioned stats store, migrating the legacy counters the first time it runs. A store
+ * from another version, say a newer build's, is left alone and an empty one used in its place.
+ */
+export function loadStatsStore(storage: StatsStorage): StatsStore {
+  let stored: Partial<StatsStore> | null;
+  try {
+    stored = readJson(storage, STATS_STORAGE_KEY) as Partial<StatsStore> | null;
+  } catch {
+    return createEmptyStatsStore();
+  }
+  if (stored !== null) {
+    return stored.version === STATS_VERSION ? normalizeStore(stored) : createEmptyStatsStore();
+  }
+
+  const migrated = migrateLegacyStats(storage, listLegacyVariantKeys(storage));
+  saveStatsStore(storage, migrated);
+  return migrated;
+}
+
+export function saveStatsStore(storage: StatsStorage, store: StatsStore) {
+  writeStorage(storage, STATS_STORAGE_KEY, JSON.stringify(store));
+}
+
+/** Multi-board variants get their own counters next to the single-board key, e.g. `5x9x4`. */
+export function getStatsKey(mode: GameConfig & { boards?: number }): string {
+  const variantKey = getVariantKey(mode);
+  return mode.boards && mode.boards > 1 ? `${variantKey}x${mode.boards}` : variantKey;
+}
+
+export function getVariantStats(
+  store: StatsStore,
+  config: GameConfig & { boards?: number },
+): GameStats {
+  return store.variants[getStatsKey(config)] ?? createEmptyStats(config.maxGuesses);
+}
+
+export function applyGameResult(
+  stats: GameStats,
+  entry: Pick<GameHistoryEntry, "result" | "guesses" | "mode">,
+): GameStats {
+  const didWin = entry.result === "won";
+  const currentStreak = didWin ? stats.currentStreak + 1 : 0;
+  const guessDistribution = stats.guessDistribution.slice();
+  if (didWin && entry.guesses.length > 0) {
+    const bucket = entry.guesses.length - 1;
+    guessDistribution[bucket] = (guessDistribution[bucket] ?? 0) + 1;
+  }
+
+  return {
+    totalPlayed: stats.totalPlayed + 1,
+    totalWon: stats.totalWon + (didWin ? 1 : 0),
+    currentStreak,
+    maxStreak: didWin ? Math.max(stats.maxStreak, currentStreak) : stats.maxStreak,
+    hardModeWins: stats.hardModeWins + (didWin && entry.mode.hardMode ? 1 : 0),
+    guessDistribution,
+  };
+}
+
+/**
+ * The stored streak only counts while it is unbroken: missing yesterday's daily resets it.
+ */
+export function getDailyStats(store: StatsStore, todayKey: string): DailyStats {
+  const { daily } = store;
+  const isStreakAlive =
+    daily.lastWonKey === todayKey || daily.lastWonKey === getPreviousDailyKey(todayKey);
+  return isStreakAlive ? daily : { ...daily, currentStreak: 0 };
+}
+
+function applyDailyResult(
+  daily: DailyStats,
+  entry: GameHistoryEntry,
+  dailyKey: string,
+): DailyStats {
+  if (daily.results[dailyKey]) return daily;
+
+  const didWin = entry.result === "won";
+  const previous = {
+    ...daily,
+    currentStreak: daily.lastWonKey === getPreviousDailyKey(dailyKey) ? daily.currentStreak : 0,
+  };
+  return {
+    ...applyGameResult(previous, entry),
+    lastWonKey: didWin ? dailyKey : daily.lastWonKey,
+    results: { ...daily.results, [dailyKey]: { result: entry.result, guesses: entry.guesses } },
+  };
+}
+
+/**
+ * Folds a finished game into the variant (or daily) counters, prepends it to the history log and
+ * reschedules the word in the review queue.
+ */
+export function recordGame(store: StatsStore, entry: GameHistoryEntry): StatsStore {
+  const history = [entry, ...store.history].slice(0, MAX_HISTORY_ENTRIES);
+  const review = applyReviewResult(store.review, entry);
+  if (entry.mode.dailyKey) {
+    return {
+      ...store,
+      daily: applyDailyResult(store.daily, entry, entry.mode.dailyKey),
+      history,
+      review,
+    };
+  }
+
+  const variantKey = getStatsKey(entry.mode);
+  return {
+    ...store,
+    variants: {
+      ...store.variants,
+      [variantKey]: applyGameResult(getVariantStats(store, entry.mode), entry),
+    },
+    history,
+    review,
+  };
+}
+
+/**
+ * Multi-board games only count toward their variant's counters; the history log and the review
+ * queue follow single words.
+ */
+export function recordMultiBoardGame(
+  store: StatsStore,
+  mode: GameMode,
+  result: DailyResult,
+): StatsStore {
+  return {
+    ...store,
+    variants: {
+      ...store.variants,
+      [getStatsKey(mode)]: applyGameResult(getVariantStats(store, mode), { ...result, mode }),
+    },
+  };
+}
+
+export function recordTimedRun(store: StatsStore, run: TimedRun): StatsStore {
+  return { ...store, runs: [run, ...store.runs].slice(0, MAX_TIMED_RUNS) };
+}
+
+/** Fastest wins in one variant, quickest first. */
+export function getFastestSolves(
+  history: readonly GameHistoryEntry[],
+  config: GameConfig,
+  limit = 5,
+): GameHistoryEntry[] {
+  const variantKey = getVariantKey(config);
+  return history
+    .filter(
+      (entry) =>
+        entry.result === "won" &&
+        entry.durationMs !== undefined &&
+        getVariantKey(entry.mode) === variantKey,
+    )
+    .sort((a, b) => (a.durationMs ?? 0) - (b.durationMs ?? 0))
+    .slice(0, limit);
+}
+
+/** Best runs for one timer setting: most words solved, then least time. */
+export function getBestRuns(runs: readonly TimedRun[], settingId: string, limit = 5): TimedRun[] {
+  return runs
+    .filter((run) => run.settingId === settingId)
+    .sort((a, b) => b.solved - a.solved || a.totalMs - b.totalMs)
+    .slice(0, limit);
+}
+
+export function setReviewMixRate(store: StatsStore, mixRate: number): StatsStore {
+  return { ...store, review: { ...store.review, mixRate } };
+}
+
+export function createHistoryEntry(
+  solution: string,
+  guesses: string[],
+  didWin: boolean,
+  mode: GameMode,
+  puzzleId?: string,
+  timing?: GameTiming,
+): GameHistoryEntry {
+  const timestamp = Date.now();
+  return {
+    id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    solution,
+    guesses,
+    result: didWin ? "won" : "lost",
+    timestamp,
+    mode,
+    puzzleId,
+    ...timing,
+  };
+}
+
+export function getAverageGuesses(stats: GameStats): number | null {
+  let wins = 0;
+  let total = 0;
+  stats.guessDistribution.forEach((count, index) => {
+    wins += count;
+    total += count * (index + 1);
+  });
+  return wins === 0 ? null : total / wins;
+}
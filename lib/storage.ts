@@ -0,0 +1,36 @@
+/**
+ * Web Storage throws rather than failing quietly: Safari's private mode and a full quota both
+ * make `setItem` throw, and a blocked storage origin makes every call throw. These wrappers
+ * turn that into a missing value or a write that didn't stick, so a setting that can't be
+ * remembered never breaks the click that changed it.
+ */
+
+export function readStorage(storage: Pick<Storage, "getItem">, key: string): string | null {
+  try {
+    return storage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+/** Returns whether the value was stored. */
+export function writeStorage(
+  storage: Pick<Storage, "setItem">,
+  key: string,
+  value: string,
+): boolean {
+  try {
+    storage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function removeStorage(storage: Pick<Storage, "removeItem">, key: string) {
+  try {
+    storage.removeItem(key);
+  } catch {
+    // Nothing to clean up if storage can't be reached.
+  }
+}
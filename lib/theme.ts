@@ -0,0 +1,36 @@
+import { writeStorage } from "./storage";
+
+export const THEME_STORAGE_KEY = "wordle-practice/theme";
+
+/**
+ * `high-contrast` swaps the green/yellow feedback for orange/blue, which stays apart for
+ * colorblind players; components opt in with Tailwind's `high-contrast:` variant.
+ */
+export type Theme = "standard" | "high-contrast";
+
+type ThemeStorage = Pick<Storage, "getItem" | "setItem">;
+
+export function loadTheme(storage: ThemeStorage): Theme {
+  try {
+    return storage.getItem(THEME_STORAGE_KEY) === "high-contrast" ? "high-contrast" : "standard";
+  } catch {
+    return "standard";
+  }
+}
+
+export function saveTheme(storage: ThemeStorage, theme: Theme) {
+  writeStorage(storage, THEME_STORAGE_KEY, theme);
+}
+
+export function applyTheme(theme: Theme, root: HTMLElement = document.documentElement) {
+  if (theme === "high-contrast") {
+    root.dataset.theme = theme;
+  } else {
+    delete root.dataset.theme;
+  }
+}
+
+// Runs in <head> before the page paints, so a saved theme doesn't flash the standard colors.
+export const THEME_INIT_SCRIPT = `try{if(localStorage.getItem(${JSON.stringify(
+  THEME_STORAGE_KEY,
+)})==="high-contrast")document.documentElement.dataset.theme="high-contrast"}catch(e){}`;
@@ -0,0 +1,67 @@
+/** How the clock constrains play: not at all, a countdown per word, or one budget for a run. */
+export type TimerKind = "off" | "per-game" | "budget";
+
+export interface TimerSetting {
+  id: string;
+  label: string;
+  kind: TimerKind;
+  /** Per-word countdown, or the whole run's budget. */
+  limitMs: number;
+  /** Consecutive words in a run; 1 for per-game countdowns. */
+  words: number;
+}
+
+export const TIMER_SETTINGS: TimerSetting[] = [
+  { id: "off", label: "Off", kind: "off", limitMs: 0, words: 1 },
+  { id: "word-60", label: "1 min / word", kind: "per-game", limitMs: 60_000, words: 1 },
+  { id: "word-180", label: "3 min / word", kind: "per-game", limitMs: 180_000, words: 1 },
+  { id: "run-5", label: "5 words / 5 min", kind: "budget", limitMs: 300_000, words: 5 },
+  { id: "run-10", label: "10 words / 8 min", kind: "budget", limitMs: 480_000, words: 10 },
+];
+
+export function getTimerSetting(id: string | null | undefined): TimerSetting {
+  return TIMER_SETTINGS.find((setting) => setting.id === id) ?? TIMER_SETTINGS[0];
+}
+
+/**
+ * A pausable stopwatch. `elapsedMs` holds the time banked before the current stretch, and
+ * `runningSince` is when that stretch began, or `null` while paused.
+ */
+export interface GameClock {
+  elapsedMs: number;
+  runningSince: number | null;
+}
+
+export const IDLE_CLOCK: GameClock = { elapsedMs: 0, runningSince: null };
+
+export function getElapsedMs(clock: GameClock, now: number = Date.now()): number {
+  return clock.elapsedMs + (clock.runningSince === null ? 0 : now - clock.runningSince);
+}
+
+export function resumeClock(clock: GameClock, now: number = Date.now()): GameClock {
+  return clock.runningSince === null ? { ...clock, runningSince: now } : clock;
+}
+
+export function pauseClock(clock: GameClock, now: number = Date.now()): GameClock {
+  return clock.runningSince === null
+    ? clock
+    : { elapsedMs: getElapsedMs(clock, now), runningSince: null };
+}
+
+/** A finished budget run: how many of its words were solved, and in how much active time. */
+export interface TimedRun {
+  id: string;
+  settingId: string;
+  words: number;
+  solved: number;
+  totalMs: number;
+  timestamp: number;
+}
+
+/** `m:ss.t`, rounding down so a countdown never shows time that isn't left. */
+export function formatDuration(ms: number): string {
+  const tenths = Math.max(0, Math.floor(ms / 100));
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${String(seconds).padStart(2, "0")}.${tenths % 10}`;
+}
@@ -1,8 +1,108 @@
 import solutions from "../data/solutions.json";
-import valid from "../data/valid.json";
+import solutions4 from "../data/solutions-4.json";
+import solutions6 from "../data/solutions-6.json";
+import solutions7 from "../data/solutions-7.json";
+import difficultyTags from "../data/difficulty.json";
+import { unpackWords } from "./word-pack";
 
-export const PRACTICE_WORDS: readonly string[] = solutions;
-export const VALID_GUESSES = new Set<string>([...valid]);
+export const SUPPORTED_WORD_LENGTHS = [4, 5, 6, 7] as const;
+export type WordLength = (typeof SUPPORTED_WORD_LENGTHS)[number];
 
-export const WORD_LENGTH = 5;
-export const MAX_GUESSES = 6;
+export const DEFAULT_WORD_LENGTH: WordLength = 5;
+export const DEFAULT_MAX_GUESSES = 6;
+export const MIN_GUESSES = 3;
+export const MAX_GUESS_LIMIT = 10;
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+/** What a solution slot holds once its word has been taken out of the answers. */
+export const RETIRED_SOLUTION = "";
+
+export interface WordBank {
+  /**
+   * Every answer ever listed, in the order puzzle IDs and daily words index into. The list is
+   * append-only: a word taken out of the answers leaves `RETIRED_SOLUTION` in its slot, so the
+   * words after it keep their IDs. Check a slot before playing it.
+   */
+  solutions: readonly string[];
+  /** The solutions still in play, without retired slots; what solvers and counts work from. */
+  answers: readonly string[];
+  /** Difficulty tier of each solution, by index, or `null` for a retired slot. */
+  difficulty: readonly (Difficulty | null)[];
+  /** Only the solutions until `loadGuessDictionary` has filled in the full dictionary. */
+  valid: ReadonlySet<string>;
+}
+
+// Solutions ship with the bundle; the much larger guess dictionaries are packed with
+// `packWords` and split into their own chunks, fetched the first time a length is played.
+const DICTIONARY_LOADERS: Record<WordLength, () => Promise<{ default: string }>> = {
+  4: () => import("../data/guesses-4.json"),
+  5: () => import("../data/guesses-5.json"),
+  6: () => import("../data/guesses-6.json"),
+  7: () => import("../data/guesses-7.json"),
+};
+
+const validSets = new Map<WordLength, Set<string>>();
+const dictionaryLoads = new Map<WordLength, Promise<void>>();
+const loadedDictionaries = new Set<WordLength>();
+
+const DIFFICULTY_BY_CODE: Record<string, Difficulty> = { e: "easy", m: "medium", h: "hard" };
+
+function createWordBank(wordLength: WordLength, solutionList: string[]): WordBank {
+  const answers = solutionList.filter((word) => word !== RETIRED_SOLUTION);
+  // Every answer is a valid guess, even before the dictionary arrives.
+  const valid = new Set<string>(answers);
+  validSets.set(wordLength, valid);
+  const difficulty = Array.from(
+    difficultyTags[wordLength],
+    (code) => DIFFICULTY_BY_CODE[code] ?? null,
+  );
+  return { solutions: solutionList, answers, difficulty, valid };
+}
+
+export const WORD_BANKS: Record<WordLength, WordBank> = {
+  4: createWordBank(4, solutions4),
+  5: createWordBank(5, solutions),
+  6: createWordBank(6, solutions6),
+  7: createWordBank(7, solutions7),
+};
+
+export function getWordBank(wordLength: number): WordBank {
+  return WORD_BANKS[wordLength as WordLength] ?? WORD_BANKS[DEFAULT_WORD_LENGTH];
+}
+
+function toWordLength(wordLength: number): WordLength {
+  return wordLength in WORD_BANKS ? (wordLength as WordLength) : DEFAULT_WORD_LENGTH;
+}
+
+export function isGuessDictionaryLoaded(wordLength: number): boolean {
+  return loadedDictionaries.has(toWordLength(wordLength));
+}
+
+/**
+ * Adds the full guess dictionary for a word length to its bank's `valid` set. Safe to call
+ * repeatedly; every caller shares one request per length.
+ */
+export function loadGuessDictionary(wordLength: number): Promise<void> {
+  const length = toWordLength(wordLength);
+  let load = dictionaryLoads.get(length);
+  if (!load) {
+    load = DICTIONARY_LOADERS[length]().then(
+      ({ default: packed }) => {
+        const valid = validSets.get(length)!;
+        for (const word of unpackWords(packed)) valid.add(word);
+        loadedDictionaries.add(length);
+      },
+      (error: unknown) => {
+        // Let the next caller retry instead of caching the failure.
+        dictionaryLoads.delete(length);
+        throw error;
+      },
+    );
+    dictionaryLoads.set(length, load);
+  }
+  return load;
+}
+
+export const PRACTICE_WORDS: readonly string[] = WORD_BANKS[DEFAULT_WORD_LENGTH].answers;
+export const VALID_GUESSES = WORD_BANKS[DEFAULT_WORD_LENGTH].valid;
@@ -0,0 +1,31 @@
+/**
+ * Front-coded word lists: words are sorted, and each one is stored as the length of the
+ * prefix it shares with the previous word (a single digit) followed by the rest of its
+ * letters. `["crane", "crank", "crate"]` packs to `"0crane4k3te"`, about a third of the
+ * size of the equivalent JSON array.
+ */
+export function packWords(words: Iterable<string>): string {
+  const sorted = [...new Set(words)].sort();
+  let previous = "";
+  let packed = "";
+  for (const word of sorted) {
+    if (!/^[a-z]+$/.test(word)) throw new Error(`Can't pack "${word}": only a-z is supported`);
+    let shared = 0;
+    const limit = Math.min(word.length, previous.length, 9);
+    while (shared < limit && word[shared] === previous[shared]) shared += 1;
+    packed += `${shared}${word.slice(shared)}`;
+    previous = word;
+  }
+  return packed;
+}
+
+export function unpackWords(packed: string): string[] {
+  const words: string[] = [];
+  let previous = "";
+  for (const entry of packed.match(/\d[a-z]*/g) ?? []) {
+    const word = previous.slice(0, Number(entry[0])) + entry.slice(1);
+    words.push(word);
+    previous = word;
+  }
+  return words;
+}
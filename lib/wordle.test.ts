@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  GuessResult,
+  describeRow,
+  evaluateGuess,
+  getEmptyBoard,
+  getHardModeViolation,
+  isValidGuess,
+  normalizeGuess,
+} from "./wordle";
+import { loadGuessDictionary } from "./word-bank";
+
+const STATE_INITIALS = { correct: "c", present: "p", absent: "a", empty: "e" } as const;
+
+/** One initial per tile, so a whole row reads like `ppcpa`. */
+function getStates(result: GuessResult) {
+  return result.letters.map((entry) => STATE_INITIALS[entry.state]).join("");
+}
+
+describe("evaluateGuess", () => {
+  it.each([
+    { guess: "hello", solution: "hello", states: "ccccc" },
+    { guess: "crane", solution: "slate", states: "aacac" },
+    // Both E's in the guess compete for the solution's single E; only the first scores.
+    { guess: "speed", solution: "abide", states: "aapap" },
+    { guess: "speed", solution: "erase", states: "pappa" },
+    // A green claims its letter before any yellows are handed out.
+    { guess: "geese", solution: "those", states: "aaacc" },
+    { guess: "abbey", solution: "kebab", states: "ppcpa" },
+    { guess: "lolly", solution: "hello", states: "apcca" },
+    { guess: "llama", solution: "hello", states: "ppaaa" },
+    // Other word lengths go through the same two passes.
+    { guess: "noon", solution: "onto", states: "pppa" },
+  ])("scores $guess against $solution as $states", ({ guess, solution, states }) => {
+    const result = evaluateGuess(guess, solution);
+    expect(getStates(result)).toBe(states);
+    expect(result.letters.map((entry) => entry.letter).join("")).toBe(guess);
+    expect(result.isCorrect).toBe(guess === solution);
+  });
+
+  it("ignores case and surrounding whitespace", () => {
+    expect(getStates(evaluateGuess(" CRANE ", "crane"))).toBe("ccccc");
+    expect(evaluateGuess("Crane", "CRANE").isCorrect).toBe(true);
+  });
+
+  it("leaves a guess of the wrong length unscored", () => {
+    const result = evaluateGuess("cran", "crane");
+    expect(getStates(result)).toBe("eeeee");
+    expect(result.letters.map((entry) => entry.letter)).toEqual(["c", "r", "a", "n", ""]);
+    expect(result.isCorrect).toBe(false);
+  });
+});
+
+describe("getHardModeViolation", () => {
+  function played(solution: string, ...guesses: string[]) {
+    return guesses.map((guess) => evaluateGuess(guess, solution).letters);
+  }
+
+  it.each([
+    // CRANE against CIDER: C is green, R and E are yellow.
+    { rows: played("cider", "crane"), guess: "cried", violation: null },
+    { rows: played("cider", "crane"), guess: "braid", violation: "1st letter must be C" },
+    { rows: played("cider", "crane"), guess: "cloud", violation: "Guess must contain R" },
+    { rows: played("cider", "crane"), guess: "CHORE", violation: null },
+    // Greens are checked before yellows, whichever row they come from.
+    {
+      rows: played("cider", "slate", "crane"),
+      guess: "bloke",
+      violation: "1st letter must be C",
+    },
+    // GEESE against EERIE reveals three E's: two green and one yellow.
+    { rows: played("eerie", "geese"), guess: "reeve", violation: null },
+    { rows: played("eerie", "geese"), guess: "lease", violation: "Guess must contain E" },
+    { rows: played("eerie", "geese"), guess: "rebel", violation: "5th letter must be E" },
+    // An absent copy of a letter doesn't raise the count: SPEED against ABIDE reveals one E.
+    { rows: played("abide", "speed"), guess: "diode", violation: null },
+    { rows: played("abide", "speed"), guess: "ghost", violation: "Guess must contain E" },
+    // ...while SPEED against ERASE reveals two.
+    { rows: played("erase", "speed"), guess: "those", violation: "Guess must contain E" },
+    { rows: [], guess: "zzzzz", violation: null },
+  ])("allows $guess: $violation", ({ rows, guess, violation }) => {
+    expect(getHardModeViolation(guess, rows)).toBe(violation);
+  });
+
+  it.each([
+    [1, "1st"],
+    [2, "2nd"],
+    [3, "3rd"],
+    [4, "4th"],
+    [11, "11th"],
+    [12, "12th"],
+    [13, "13th"],
+    [21, "21st"],
+    [22, "22nd"],
+  ])("calls position %i the %s letter", (position, ordinal) => {
+    const solution = "abcdefghijklmnopqrstuv";
+    const blank = "z".repeat(solution.length);
+    const hint = `${blank.slice(0, position - 1)}${solution[position - 1]}${blank.slice(position)}`;
+    const rows = played(solution, hint);
+    expect(getHardModeViolation(blank, rows)).toBe(
+      `${ordinal} letter must be ${solution[position - 1].toUpperCase()}`,
+    );
+  });
+});
+
+describe("normalizeGuess", () => {
+  it.each([
+    { input: "crane", expected: "crane" },
+    { input: "CRANE", expected: "crane" },
+    { input: "  Slate ", expected: "slate" },
+    { input: "\tthose\n", expected: "those" },
+    { input: "", expected: "" },
+    // Only the ends are trimmed; the caller decides what to do with anything inside.
+    { input: "cr ane", expected: "cr ane" },
+  ])("normalizes $input to $expected", ({ input, expected }) => {
+    expect(normalizeGuess(input)).toBe(expected);
+  });
+});
+
+describe("isValidGuess", () => {
+  it.each([
+    { guess: "crane", config: undefined, valid: true },
+    { guess: "CRANE", config: undefined, valid: true },
+    { guess: " crane ", config: undefined, valid: true },
+    { guess: "cran", config: undefined, valid: false },
+    { guess: "cranes", config: undefined, valid: false },
+    { guess: "zzzzz", config: undefined, valid: false },
+    { guess: "bird", config: { wordLength: 4, maxGuesses: 6 }, valid: true },
+    { guess: "crane", config: { wordLength: 4, maxGuesses: 6 }, valid: false },
+  ])("treats $guess as valid: $valid", ({ guess, config, valid }) => {
+    expect(isValidGuess(guess, config)).toBe(valid);
+  });
+
+  it("accepts dictionary-only words once the guess list has loaded", async () => {
+    expect(isValidGuess("aahed")).toBe(false);
+    await loadGuessDictionary(5);
+    expect(isValidGuess("aahed")).toBe(true);
+    expect(isValidGuess("zzzzz")).toBe(false);
+  });
+});
+
+describe("getEmptyBoard", () => {
+  it.each([
+    { config: undefined, rows: 6, columns: 5 },
+    { config: { wordLength: 4, maxGuesses: 3 }, rows: 3, columns: 4 },
+    { config: { wordLength: 7, maxGuesses: 10 }, rows: 10, columns: 7 },
+  ])("builds $rows rows of $columns blank tiles", ({ config, rows, columns }) => {
+    const board = getEmptyBoard(config);
+    expect(board).toHaveLength(rows);
+    for (const row of board) {
+      expect(row).toHaveLength(columns);
+      expect(row.every((cell) => cell.letter === "" && cell.state === "empty")).toBe(true);
+    }
+  });
+
+  it("gives every tile its own object", () => {
+    const board = getEmptyBoard();
+    board[0][0].letter = "c";
+    expect(board[0][1].letter).toBe("");
+    expect(board[1][0].letter).toBe("");
+  });
+});
+
+describe("describeRow", () => {
+  it("reads a row out letter by letter, counting rows from one", () => {
+    expect(describeRow(evaluateGuess("crane", "cider").letters, 1)).toBe(
+      "Row 2: C correct, R present, A absent, N absent, E present",
+    );
+  });
+});
@@ -1,4 +1,12 @@
-import { MAX_GUESSES, PRACTICE_WORDS, VALID_GUESSES, WORD_LENGTH } from "./word-bank";
+import {
+  DEFAULT_MAX_GUESSES,
+  DEFAULT_WORD_LENGTH,
+  MAX_GUESS_LIMIT,
+  MIN_GUESSES,
+  SUPPORTED_WORD_LENGTHS,
+  getWordBank,
+} from "./word-bank";
+import { SelectionOptions, pickSolutionIndex } from "./selection";
 
 export type LetterState = "correct" | "present" | "absent" | "empty";
 
@@ -12,14 +20,48 @@ export interface GuessResult {
   isCorrect: boolean;
 }
 
-export function getRandomSolution(): string {
-  const index = Math.floor(Math.random() * PRACTICE_WORDS.length);
-  return PRACTICE_WORDS[index];
+export interface GameConfig {
+  wordLength: number;
+  maxGuesses: number;
 }
 
-export function isValidGuess(guess: string): boolean {
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  wordLength: DEFAULT_WORD_LENGTH,
+  maxGuesses: DEFAULT_MAX_GUESSES,
+};
+
+/**
+ * Coerces a possibly stale or hand-edited config into one the word banks can serve.
+ */
+export function normalizeGameConfig(config: Partial<GameConfig> | null | undefined): GameConfig {
+  const wordLength = SUPPORTED_WORD_LENGTHS.find((length) => length === config?.wordLength);
+  const maxGuesses = Math.round(Number(config?.maxGuesses));
+  return {
+    wordLength: wordLength ?? DEFAULT_GAME_CONFIG.wordLength,
+    maxGuesses: Number.isFinite(maxGuesses)
+      ? Math.min(MAX_GUESS_LIMIT, Math.max(MIN_GUESSES, maxGuesses))
+      : DEFAULT_GAME_CONFIG.maxGuesses,
+  };
+}
+
+/** Stable identifier for a config, used to key per-variant stats. */
+export function getVariantKey(config: GameConfig): string {
+  return `${config.wordLength}x${config.maxGuesses}`;
+}
+
+export function getRandomSolution(
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  selection: SelectionOptions = {},
+): string {
+  const { solutions } = getWordBank(config.wordLength);
+  return solutions[pickSolutionIndex(config, Math.random, selection)];
+}
+
+export function isValidGuess(guess: string, config: GameConfig = DEFAULT_GAME_CONFIG): boolean {
   const normalized = normalizeGuess(guess);
-  return normalized.length === WORD_LENGTH && VALID_GUESSES.has(normalized);
+  return (
+    normalized.length === config.wordLength && getWordBank(config.wordLength).valid.has(normalized)
+  );
 }
 
 export function normalizeGuess(guess: string): string {
@@ -30,12 +72,15 @@ export function evaluateGuess(guess: string, solution: string): GuessResult {
   const normalizedGuess = normalizeGuess(guess);
   const normalizedSolution = normalizeGuess(solution);
 
-  const result: LetterEvaluation[] = Array.from({ length: WORD_LENGTH }, (_, index) => ({
+  // The solution decides the word length, so every variant shares this evaluation.
+  const wordLength = normalizedSolution.length;
+
+  const result: LetterEvaluation[] = Array.from({ length: wordLength }, (_, index) => ({
     letter: normalizedGuess[index] ?? "",
     state: "empty",
   }));
 
-  if (normalizedGuess.length !== WORD_LENGTH || normalizedSolution.length !== WORD_LENGTH) {
+  if (wordLength === 0 || normalizedGuess.length !== wordLength) {
     return { letters: result, isCorrect: false };
   }
 
@@ -46,7 +91,7 @@ export function evaluateGuess(guess: string, solution: string): GuessResult {
   }, {});
 
   // First pass: mark correct letters.
-  for (let i = 0; i < WORD_LENGTH; i += 1) {
+  for (let i = 0; i < wordLength; i += 1) {
     const guessLetter = normalizedGuess[i];
     if (guessLetter === solutionLetters[i]) {
       result[i] = { letter: guessLetter, state: "correct" };
@@ -55,7 +100,7 @@ export function evaluateGuess(guess: string, solution: string): GuessResult {
   }
 
   // Second pass: mark present / absent.
-  for (let i = 0; i < WORD_LENGTH; i += 1) {
+  for (let i = 0; i < wordLength; i += 1) {
     const current = result[i];
     if (current.state === "correct") continue;
 
@@ -72,11 +117,101 @@ export function evaluateGuess(guess: string, solution: string): GuessResult {
   return { letters: result, isCorrect };
 }
 
-export function getEmptyBoard(): LetterEvaluation[][] {
-  return Array.from({ length: MAX_GUESSES }, () =>
-    Array.from({ length: WORD_LENGTH }, () => ({
+/** True once a board row holds an evaluated guess rather than blanks or pending input. */
+export function isCommittedRow(row: LetterEvaluation[]): boolean {
+  return row.length > 0 && row.every((entry) => entry.letter && entry.state !== "empty");
+}
+
+/** What a screen reader hears once a row is in, e.g. "Row 2: C absent, R present, …". */
+export function describeRow(row: LetterEvaluation[], rowIndex: number): string {
+  const letters = row.map((entry) => `${entry.letter.toUpperCase()} ${entry.state}`);
+  return `Row ${rowIndex + 1}: ${letters.join(", ")}`;
+}
+
+/** Best-known state per upper-case letter, as shown on the on-screen keyboard. */
+export type KeyboardState = Record<string, LetterState | undefined>;
+
+/**
+ * Folds one row of feedback into the keyboard; a letter never downgrades from
+ * `correct` to `present`, or from either to `absent`.
+ */
+export function mergeKeyboardState(
+  previous: KeyboardState,
+  evaluations: LetterEvaluation[],
+): KeyboardState {
+  const next = { ...previous };
+  for (const entry of evaluations) {
+    const letter = entry.letter.toUpperCase();
+    if (!letter) continue;
+
+    const existing = next[letter];
+    if (entry.state === "correct") {
+      next[letter] = "correct";
+    } else if (entry.state === "present" && existing !== "correct") {
+      next[letter] = "present";
+    } else if (!existing || existing === "empty") {
+      next[letter] = entry.state;
+    }
+  }
+  return next;
+}
+
+export function getKeyboardState(rows: LetterEvaluation[][]): KeyboardState {
+  return rows.reduce<KeyboardState>((acc, row) => mergeKeyboardState(acc, row), {});
+}
+
+export function getEmptyBoard(config: GameConfig = DEFAULT_GAME_CONFIG): LetterEvaluation[][] {
+  return Array.from({ length: config.maxGuesses }, () =>
+    Array.from({ length: config.wordLength }, () => ({
       letter: "",
       state: "empty" as LetterState,
     })),
   );
 }
+
+const ORDINAL_SUFFIXES: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+
+function formatOrdinal(value: number): string {
+  const remainder = value % 100;
+  if (remainder >= 11 && remainder <= 13) return `${value}th`;
+  return `${value}${ORDINAL_SUFFIXES[value % 10] ?? "th"}`;
+}
+
+/**
+ * Checks a guess against every hint revealed so far and returns the first hard-mode
+ * violation as a player-facing message, or `null` when the guess is allowed.
+ */
+export function getHardModeViolation(
+  guess: string,
+  previousGuesses: LetterEvaluation[][],
+): string | null {
+  const normalized = normalizeGuess(guess);
+
+  for (const row of previousGuesses) {
+    for (let i = 0; i < row.length; i += 1) {
+      const entry = row[i];
+      if (entry.state === "correct" && normalized[i] !== entry.letter) {
+        return `${formatOrdinal(i + 1)} letter must be ${entry.letter.toUpperCase()}`;
+      }
+    }
+  }
+
+  for (const row of previousGuesses) {
+    const required = row.reduce<Record<string, number>>((acc, entry) => {
+      if (entry.state === "correct" || entry.state === "present") {
+        acc[entry.letter] = (acc[entry.letter] ?? 0) + 1;
+      }
+      return acc;
+    }, {});
+
+    for (const entry of row) {
+      if (entry.state !== "present") continue;
+      const count = normalized.split("").filter((letter) => letter === entry.letter).length;
+      if (count < required[entry.letter]) {
+        return `Guess must contain ${entry.letter.toUpperCase()}`;
+      }
+    }
+  }
+
+  return null;
+}
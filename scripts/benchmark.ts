@@ -0,0 +1,120 @@
+/**
+ * Plays guessing strategies against every practice word and reports how many guesses they take,
+ * for comparing openers and catching regressions in the solver's scoring.
+ *
+ *   npm run benchmark                                  every strategy, each picking its own opener
+ *   npm run benchmark -- --strategy entropy --opener crane,slate
+ *   npm run benchmark -- --limit 200                   the first 200 words only, for a quick run
+ *   npm run benchmark -- --out results.csv             per-word results; .json or .csv, or --format
+ */
+import { writeFileSync } from "fs";
+import { extname } from "path";
+import { parseArgs } from "util";
+import { DEFAULT_GAME_CONFIG, isValidGuess, normalizeGuess } from "../lib/wordle";
+import { PRACTICE_WORDS, loadGuessDictionary } from "../lib/word-bank";
+import { createSeededRandom } from "../lib/puzzle";
+import {
+  BenchmarkResult,
+  STRATEGY_FACTORIES,
+  runBenchmark,
+  toBenchmarkCsv,
+} from "../lib/benchmark";
+
+const CONFIG = DEFAULT_GAME_CONFIG;
+const FORMATS = ["json", "csv"];
+
+const USAGE = `Usage: npm run benchmark -- [--strategy ${Object.keys(STRATEGY_FACTORIES).join(",")}] \
+[--opener <word,...>] [--limit <n>] [--seed <n>] [--out <file>] [--format json|csv]`;
+
+function parseList(value: string | undefined): string[] {
+  return value ? value.split(",").map((item) => item.trim().toLowerCase()) : [];
+}
+
+function printSummary(result: BenchmarkResult) {
+  const label = result.opener
+    ? `${result.strategy} from ${result.opener.toUpperCase()}`
+    : result.strategy;
+  console.log(`\n${label}: ${result.games} words in ${(result.durationMs / 1000).toFixed(1)}s`);
+  console.log(
+    `  mean ${result.meanGuesses.toFixed(3)} guesses, ${result.failures} failed, ` +
+      `${result.unsolved} never solved`,
+  );
+  const peak = Math.max(...result.distribution, 1);
+  const lastUsed = result.distribution.findLastIndex((count) => count > 0);
+  result.distribution
+    .slice(0, Math.max(lastUsed + 1, CONFIG.maxGuesses))
+    .forEach((count, index) => {
+      const bar = "#".repeat(Math.round((count / peak) * 40));
+      console.log(`  ${String(index + 1).padStart(2)} ${bar} ${count}`);
+    });
+  const worst = result.worst.map(
+    (record) => `${record.solution.toUpperCase()} (${record.solved ? record.guesses.length : "X"})`,
+  );
+  console.log(`  worst: ${worst.join(", ")}`);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      strategy: { type: "string", default: Object.keys(STRATEGY_FACTORIES).join(",") },
+      opener: { type: "string" },
+      limit: { type: "string" },
+      seed: { type: "string", default: "1" },
+      out: { type: "string" },
+      format: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const strategies = parseList(values.strategy);
+  const openers = parseList(values.opener);
+  const limit = values.limit === undefined ? PRACTICE_WORDS.length : Number(values.limit);
+  const seed = Number(values.seed);
+  const format = values.format ?? (values.out ? extname(values.out).slice(1) : "json");
+
+  await loadGuessDictionary(CONFIG.wordLength);
+
+  const unknown = strategies.filter((id) => !(id in STRATEGY_FACTORIES));
+  if (unknown.length > 0) throw new Error(`Unknown strategy: ${unknown.join(", ")}\n${USAGE}`);
+  const invalid = openers.filter((word) => !isValidGuess(normalizeGuess(word), CONFIG));
+  if (invalid.length > 0) throw new Error(`Not in the word list: ${invalid.join(", ")}`);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("--limit takes a positive whole number");
+  }
+  if (!Number.isInteger(seed)) throw new Error("--seed takes a whole number");
+  if (!FORMATS.includes(format)) throw new Error(`--format must be one of ${FORMATS.join(", ")}`);
+
+  const solutions = PRACTICE_WORDS.slice(0, limit);
+  const onProgress = process.stderr.isTTY
+    ? (done: number, total: number) => process.stderr.write(`\r  ${done}/${total}`)
+    : undefined;
+
+  const results: BenchmarkResult[] = [];
+  for (const id of strategies) {
+    for (const opener of openers.length > 0 ? openers : [undefined]) {
+      const strategy = STRATEGY_FACTORIES[id](createSeededRandom(seed));
+      const result = runBenchmark(strategy, { config: CONFIG, solutions, opener, onProgress });
+      if (onProgress) process.stderr.write("\r\x1b[K");
+      printSummary(result);
+      results.push(result);
+    }
+  }
+
+  if (values.out) {
+    writeFileSync(
+      values.out,
+      format === "csv" ? toBenchmarkCsv(results) : `${JSON.stringify(results, null, 2)}\n`,
+    );
+    console.log(`\nWrote ${values.out}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
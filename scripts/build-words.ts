@@ -0,0 +1,255 @@
+/**
+ * Word-list pipeline: turns the curated sources in `data/sources` into the JSON files that
+ * `lib/word-bank.ts` imports. It applies the blocklists, dedupes, rejects malformed words and
+ * tags every answer with a difficulty tier. Puzzle IDs and daily words index into the solution
+ * lists, so a blocked answer leaves an empty slot behind instead of shifting the words after it,
+ * and the build refuses to move a word that already has a slot.
+ *
+ *   npm run words:build               regenerate data/*.json
+ *   npm run words:build -- --check    fail instead if the generated files are out of date
+ */
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import wordlist from "wordlist-english";
+import type { Difficulty } from "../lib/word-bank";
+import { packWords } from "../lib/word-pack";
+
+const ROOT_DIR = join(__dirname, "..");
+const DATA_DIR = join(ROOT_DIR, "data");
+const SOURCES_DIR = join(DATA_DIR, "sources");
+
+// Mirrors SUPPORTED_WORD_LENGTHS, DEFAULT_WORD_LENGTH and RETIRED_SOLUTION without importing
+// lib/word-bank, which loads the generated files and so can't be relied on while they're being
+// rebuilt.
+const WORD_LENGTHS = [4, 5, 6, 7];
+const DEFAULT_WORD_LENGTH = 5;
+const RETIRED_SOLUTION = "";
+
+// SCOWL frequency bands from wordlist-english: 10 is everyday vocabulary, 70 is obscure.
+const FREQUENCY_BANDS = [10, 20, 35, 40, 50, 55, 60, 70];
+const DIALECTS = ["english", "english/american", "english/british", "english/canadian"];
+const UNLISTED_BAND = 80;
+
+// How much each factor contributes to an answer's difficulty score.
+const WEIGHTS = { letterRarity: 0.4, wordRarity: 0.4, repeatedLetters: 0.2 };
+const DIFFICULTY_CODES: Record<Difficulty, string> = { easy: "e", medium: "m", hard: "h" };
+const RETIRED_CODE = "-";
+
+interface SourceList {
+  file: string;
+  words: string[];
+}
+
+const errors: string[] = [];
+const notes: string[] = [];
+
+function displayPath(path: string) {
+  return relative(ROOT_DIR, path);
+}
+
+/**
+ * Reads one word per line, skipping blank lines and `#` comments. Malformed words are
+ * errors; repeats are dropped with a note.
+ */
+function readSourceList(fileName: string, wordLength?: number): SourceList {
+  const file = join(SOURCES_DIR, fileName);
+  if (!existsSync(file)) {
+    errors.push(`${displayPath(file)}: file is missing`);
+    return { file, words: [] };
+  }
+
+  const seen = new Set<string>();
+  const words: string[] = [];
+  readFileSync(file, "utf8")
+    .split("\n")
+    .forEach((line, index) => {
+      const word = line.trim();
+      if (!word || word.startsWith("#")) return;
+      const location = `${displayPath(file)}:${index + 1}`;
+      if (!/^[a-z]+$/.test(word)) {
+        errors.push(`${location}: "${word}" must be lowercase a-z only`);
+        return;
+      }
+      if (wordLength !== undefined && word.length !== wordLength) {
+        errors.push(`${location}: "${word}" has ${word.length} letters, expected ${wordLength}`);
+        return;
+      }
+      if (seen.has(word)) {
+        notes.push(`${location}: dropped duplicate "${word}"`);
+        return;
+      }
+      seen.add(word);
+      words.push(word);
+    });
+
+  if (words.length === 0 && wordLength !== undefined) {
+    errors.push(`${displayPath(file)}: no words found`);
+  }
+  return { file, words };
+}
+
+function getFrequencyBands(): Map<string, number> {
+  const bands = new Map<string, number>();
+  for (const dialect of DIALECTS) {
+    for (const band of FREQUENCY_BANDS) {
+      for (const word of wordlist[`${dialect}/${band}`] ?? []) {
+        bands.set(word, Math.min(band, bands.get(word) ?? UNLISTED_BAND));
+      }
+    }
+  }
+  return bands;
+}
+
+/**
+ * Scores each answer from rare letters, rare words and repeated letters, then splits the
+ * list into equal thirds so every length has a usable pool at every tier.
+ */
+function tagDifficulty(solutions: string[], frequencyBands: Map<string, number>): Difficulty[] {
+  const letterShare = new Map<string, number>();
+  for (const word of solutions) {
+    for (const letter of new Set(word)) {
+      letterShare.set(letter, (letterShare.get(letter) ?? 0) + 1 / solutions.length);
+    }
+  }
+
+  const letterScores = solutions.map((word) => {
+    const letters = [...new Set(word)];
+    return (
+      letters.reduce((sum, letter) => sum + (letterShare.get(letter) ?? 0), 0) / letters.length
+    );
+  });
+  const minLetterScore = Math.min(...letterScores);
+  const letterScoreRange = Math.max(...letterScores) - minLetterScore || 1;
+  const lowestBand = FREQUENCY_BANDS[0];
+
+  const scores = solutions.map((word, index) => {
+    const letterRarity = 1 - (letterScores[index] - minLetterScore) / letterScoreRange;
+    const band = frequencyBands.get(word) ?? UNLISTED_BAND;
+    const wordRarity = (band - lowestBand) / (UNLISTED_BAND - lowestBand);
+    const repeatedLetters = new Set(word).size < word.length ? 1 : 0;
+    return (
+      WEIGHTS.letterRarity * letterRarity +
+      WEIGHTS.wordRarity * wordRarity +
+      WEIGHTS.repeatedLetters * repeatedLetters
+    );
+  });
+
+  const tiers = new Array<Difficulty>(solutions.length);
+  const byScore = solutions.map((_, index) => index).sort((a, b) => scores[a] - scores[b]);
+  byScore.forEach((solutionIndex, rank) => {
+    const third = Math.floor((rank * 3) / solutions.length);
+    tiers[solutionIndex] = third === 0 ? "easy" : third === 1 ? "medium" : "hard";
+  });
+  return tiers;
+}
+
+function removeBlocked(list: SourceList, blocked: Set<string>, reason: string): string[] {
+  const removed = list.words.filter((word) => blocked.has(word));
+  if (removed.length > 0) {
+    notes.push(`${displayPath(list.file)}: ${reason}: ${removed.join(", ")}`);
+  }
+  return list.words.filter((word) => !blocked.has(word));
+}
+
+function getSolutionsFileName(wordLength: number) {
+  return wordLength === DEFAULT_WORD_LENGTH ? "solutions.json" : `solutions-${wordLength}.json`;
+}
+
+/**
+ * Every word in the last generated list must keep its slot or be retired; anything else would
+ * send existing puzzle IDs and daily words to a different answer.
+ */
+function checkSlotsKept(fileName: string, source: SourceList, slots: string[]) {
+  const file = join(DATA_DIR, fileName);
+  if (!existsSync(file)) return;
+  const previous = JSON.parse(readFileSync(file, "utf8")) as string[];
+  const moved = previous
+    .map((word, index) => ({ word, index, now: slots[index] }))
+    .filter(({ word, now }) => word !== RETIRED_SOLUTION && now !== word)
+    .filter(({ now }) => now !== RETIRED_SOLUTION);
+  if (moved.length > 0) {
+    const { word, index, now } = moved[0];
+    errors.push(
+      `${displayPath(source.file)}: slot ${index} held "${word}" but would now hold ` +
+        `${now === undefined ? "nothing" : `"${now}"`}; only add answers at the end, and ` +
+        `block an answer instead of deleting it (${moved.length} slots moved)`,
+    );
+  }
+}
+
+const checkOnly = process.argv.includes("--check");
+const blocklist = new Set(readSourceList("blocklist.txt").words);
+const solutionBlocklist = new Set(readSourceList("solution-blocklist.txt").words);
+const frequencyBands = getFrequencyBands();
+const outputs = new Map<string, string>();
+const difficulty: Record<string, string> = {};
+const summaries: string[] = [];
+
+for (const wordLength of WORD_LENGTHS) {
+  const solutionSource = readSourceList(`solutions-${wordLength}.txt`, wordLength);
+  const guessSource = readSourceList(`guesses-${wordLength}.txt`, wordLength);
+
+  // Words kept out of answers are still fine to guess.
+  const answerCandidates = removeBlocked(solutionSource, blocklist, "blocked");
+  const answers = removeBlocked(
+    { file: solutionSource.file, words: answerCandidates },
+    solutionBlocklist,
+    "kept out of answers",
+  );
+  const guesses = [...answerCandidates, ...removeBlocked(guessSource, blocklist, "blocked")];
+  const tiers = tagDifficulty(answers, frequencyBands);
+
+  const playable = new Set(answers);
+  const solutions = solutionSource.words.map((word) =>
+    playable.has(word) ? word : RETIRED_SOLUTION,
+  );
+  const tierByWord = new Map(answers.map((word, index) => [word, tiers[index]]));
+  const solutionsFile = getSolutionsFileName(wordLength);
+  checkSlotsKept(solutionsFile, solutionSource, solutions);
+
+  outputs.set(solutionsFile, JSON.stringify(solutions, null, 2));
+  outputs.set(`guesses-${wordLength}.json`, JSON.stringify(packWords(guesses)));
+  difficulty[wordLength] = solutions
+    .map((word) => {
+      const tier = tierByWord.get(word);
+      return tier ? DIFFICULTY_CODES[tier] : RETIRED_CODE;
+    })
+    .join("");
+
+  const counts = tiers.reduce<Record<Difficulty, number>>(
+    (totals, tier) => ({ ...totals, [tier]: totals[tier] + 1 }),
+    { easy: 0, medium: 0, hard: 0 },
+  );
+  summaries.push(
+    `${wordLength} letters: ${answers.length} answers ` +
+      `(${counts.easy} easy, ${counts.medium} medium, ${counts.hard} hard), ` +
+      `${new Set(guesses).size} guesses`,
+  );
+}
+outputs.set("difficulty.json", JSON.stringify(difficulty, null, 2));
+
+for (const note of notes) console.log(`note: ${note}`);
+if (errors.length > 0) {
+  console.error(`\nWord lists are invalid:\n${errors.map((line) => `  - ${line}`).join("\n")}`);
+  process.exit(1);
+}
+
+const stale = [...outputs].filter(([fileName, contents]) => {
+  const file = join(DATA_DIR, fileName);
+  return !existsSync(file) || readFileSync(file, "utf8") !== contents;
+});
+
+if (checkOnly) {
+  if (stale.length > 0) {
+    const files = stale.map(([fileName]) => `data/${fileName}`).join(", ");
+    console.error(`\nGenerated word data is out of date: ${files}\nRun \`npm run words:build\`.`);
+    process.exit(1);
+  }
+  console.log("Generated word data is up to date.");
+} else {
+  for (const [fileName, contents] of stale) {
+    writeFileSync(join(DATA_DIR, fileName), contents);
+    console.log(`wrote data/${fileName}`);
+  }
+}
+for (const summary of summaries) console.log(summary);
@@ -0,0 +1,86 @@
+/**
+ * Build-time sanity check for the word data: every solution must be an allowed guess, every
+ * list must hold unique lowercase words of the right length, and every solution needs a
+ * difficulty tag. Retired solution slots are empty strings tagged `-`. The files themselves are
+ * generated by `npm run words:build`.
+ *
+ *   npm run check:words
+ */
+import { readFileSync } from "fs";
+import { join } from "path";
+import { DEFAULT_WORD_LENGTH, RETIRED_SOLUTION, SUPPORTED_WORD_LENGTHS } from "../lib/word-bank";
+import { unpackWords } from "../lib/word-pack";
+
+const DATA_DIR = join(__dirname, "..", "data");
+const MAX_LISTED = 10;
+
+function readJson<T>(fileName: string): T {
+  return JSON.parse(readFileSync(join(DATA_DIR, fileName), "utf8")) as T;
+}
+
+function describe(words: string[]): string {
+  const listed = words.slice(0, MAX_LISTED).join(", ");
+  return words.length > MAX_LISTED ? `${listed}, … (${words.length} total)` : listed;
+}
+
+function findDuplicates(words: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  for (const word of words) {
+    if (seen.has(word)) duplicates.push(word);
+    seen.add(word);
+  }
+  return duplicates;
+}
+
+const problems: string[] = [];
+const difficultyTags = readJson<Record<string, string>>("difficulty.json");
+
+for (const wordLength of SUPPORTED_WORD_LENGTHS) {
+  const solutionsFile =
+    wordLength === DEFAULT_WORD_LENGTH ? "solutions.json" : `solutions-${wordLength}.json`;
+  const guessesFile = `guesses-${wordLength}.json`;
+  const slots = readJson<string[]>(solutionsFile);
+  const solutions = slots.filter((word) => word !== RETIRED_SOLUTION);
+  const guesses = unpackWords(readJson<string>(guessesFile));
+  const shape = new RegExp(`^[a-z]{${wordLength}}$`);
+
+  for (const [file, words] of [
+    [solutionsFile, solutions],
+    [guessesFile, guesses],
+  ] as const) {
+    const malformed = words.filter((word) => !shape.test(word));
+    if (malformed.length > 0) {
+      problems.push(`${file}: not ${wordLength} lowercase letters: ${describe(malformed)}`);
+    }
+    const duplicates = findDuplicates(words);
+    if (duplicates.length > 0) problems.push(`${file}: duplicates: ${describe(duplicates)}`);
+  }
+
+  const allowed = new Set(guesses);
+  const missing = solutions.filter((word) => !allowed.has(word));
+  if (missing.length > 0) {
+    problems.push(`${guessesFile}: missing solutions from ${solutionsFile}: ${describe(missing)}`);
+  }
+
+  const tags = difficultyTags[wordLength] ?? "";
+  const mistagged = slots.filter((word, index) =>
+    word === RETIRED_SOLUTION ? tags[index] !== "-" : !/^[emh]$/.test(tags[index] ?? ""),
+  );
+  if (tags.length !== slots.length || mistagged.length > 0) {
+    problems.push(
+      `difficulty.json: "${wordLength}" needs one e/m/h tag per solution and "-" per retired ` +
+        `slot (${tags.length} tags for ${slots.length} slots)`,
+    );
+  }
+
+  console.log(
+    `${wordLength} letters: ${solutions.length} solutions ` +
+      `(${slots.length - solutions.length} retired), ${guesses.length} guesses`,
+  );
+}
+
+if (problems.length > 0) {
+  console.error(`\nWord data check failed:\n${problems.map((line) => `  - ${line}`).join("\n")}`);
+  process.exit(1);
+}
@@ -0,0 +1,336 @@
+/**
+ * Terminal Wordle on the same engine, word lists and stats store as the web game. Stats live in
+ * a JSON file (`WORDLE_STATS_FILE`, or `~/.wordle-practice.json`), apart from the browser's.
+ *
+ *   npm run play                 a random practice word; offers another when it's done
+ *   npm run play -- --seed 42    a fixed word, the same for everyone using that seed
+ *   npm run play -- --hard       hard mode
+ *   npm run play -- solve        hints for a game played elsewhere, from its colors
+ *   npm run play -- stats        this terminal's stats
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { createInterface } from "readline";
+import { parseArgs } from "util";
+import {
+  DEFAULT_GAME_CONFIG,
+  KeyboardState,
+  LetterEvaluation,
+  LetterState,
+  isValidGuess,
+  normalizeGuess,
+} from "../lib/wordle";
+import { loadGuessDictionary } from "../lib/word-bank";
+import {
+  GameState,
+  createGameState,
+  getGameKeyboard,
+  getGuessWords,
+  reduceGame,
+} from "../lib/game-engine";
+import { Puzzle, createRandomPuzzle, getSeededPuzzle } from "../lib/puzzle";
+import { getRecentSolutions } from "../lib/selection";
+import { getHint } from "../lib/solver";
+import {
+  StatsStorage,
+  StatsStore,
+  createHistoryEntry,
+  getAverageGuesses,
+  getVariantStats,
+  loadStatsStore,
+  recordGame,
+  saveStatsStore,
+} from "../lib/stats";
+
+const CONFIG = DEFAULT_GAME_CONFIG;
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+const STATS_FILE = process.env.WORDLE_STATS_FILE ?? join(homedir(), ".wordle-practice.json");
+const USE_COLOR = process.stdout.isTTY === true && !process.env.NO_COLOR;
+const MAX_SUGGESTIONS = 5;
+
+const USAGE = `Usage: npm run play -- [solve | stats] [--seed <n>] [--hard]`;
+
+const TILE_COLORS: Record<LetterState, string> = {
+  correct: "\x1b[1;97;42m",
+  present: "\x1b[1;30;43m",
+  absent: "\x1b[1;97;100m",
+  empty: "\x1b[1m",
+};
+// Without color, brackets and parentheses stand in for green and yellow.
+const PLAIN_TILES: Record<LetterState, [string, string]> = {
+  correct: ["[", "]"],
+  present: ["(", ")"],
+  absent: [" ", " "],
+  empty: [" ", " "],
+};
+const RESET = "\x1b[0m";
+const DIM = "\x1b[2m";
+
+/** A colored letter; board tiles get a space either side, keyboard keys don't. */
+function formatTile(letter: string, state: LetterState, padding: string = " "): string {
+  const upper = letter.toUpperCase();
+  if (!USE_COLOR) {
+    const [open, close] = PLAIN_TILES[state];
+    return `${open}${upper}${close}`;
+  }
+  return `${TILE_COLORS[state]}${padding}${upper}${padding}${RESET}`;
+}
+
+function formatRow(row: LetterEvaluation[]): string {
+  return row.map((entry) => formatTile(entry.letter, entry.state)).join(USE_COLOR ? " " : "");
+}
+
+/** The keyboard as three rows of letters; used-up letters fade out, found ones light up. */
+function formatKeyboard(keyboard: KeyboardState): string {
+  return KEYBOARD_ROWS.map((row, index) => {
+    const keys = row.split("").map((letter) => {
+      const state = keyboard[letter.toUpperCase()];
+      if (state === "absent") return USE_COLOR ? `${DIM}${letter.toUpperCase()}${RESET}` : "·";
+      if (state === "correct" || state === "present") {
+        return formatTile(letter, state, "");
+      }
+      return letter.toUpperCase();
+    });
+    return `${" ".repeat(index * 2)}${keys.join(" ")}`;
+  }).join("\n");
+}
+
+/** A `StatsStorage` over a JSON file, written through on every save. */
+function createFileStorage(path: string): StatsStorage {
+  let items: Record<string, string> = {};
+  try {
+    items = JSON.parse(readFileSync(path, "utf8")) as Record<string, string>;
+  } catch {
+    // No stats yet, or an unreadable file; either way the first save starts it afresh.
+  }
+  return {
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = value;
+      writeFileSync(path, JSON.stringify(items, null, 2));
+    },
+    key: (index) => Object.keys(items)[index] ?? null,
+    get length() {
+      return Object.keys(items).length;
+    },
+  };
+}
+
+interface Prompter {
+  /** `null` once stdin closes, so Ctrl-D ends a session like an empty answer to "another?". */
+  ask: (prompt: string) => Promise<string | null>;
+  close: () => void;
+}
+
+/** Reads answers a line at a time. Lines queue until asked for, so piped input works too. */
+function createPrompter(): Prompter {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const lines = rl[Symbol.asyncIterator]();
+  return {
+    ask: async (prompt) => {
+      rl.setPrompt(prompt);
+      rl.prompt();
+      const line = await lines.next();
+      return line.done ? null : line.value;
+    },
+    close: () => rl.close(),
+  };
+}
+
+function pickPuzzle(seed: number | undefined, store: StatsStore): Puzzle {
+  // A seed names the same word on every machine, recent games or not.
+  if (seed !== undefined) return getSeededPuzzle(seed, CONFIG);
+  return createRandomPuzzle(CONFIG, Math.random, {
+    recent: getRecentSolutions(store.history, CONFIG.wordLength),
+  });
+}
+
+async function playGame(prompter: Prompter, puzzle: Puzzle, hardMode: boolean): Promise<GameState> {
+  let game = createGameState(puzzle, CONFIG, { hardMode });
+  console.log(`\nPuzzle ${puzzle.id}${hardMode ? " · hard mode" : ""}\n`);
+
+  while (game.status === "playing") {
+    const answer = await prompter.ask(`Guess ${game.rows.length + 1}/${CONFIG.maxGuesses}: `);
+    if (answer === null) {
+      game = reduceGame(game, { type: "resign" });
+      break;
+    }
+
+    const guess = normalizeGuess(answer);
+    if (!/^[a-z]+$/.test(guess) || guess.length !== CONFIG.wordLength) {
+      console.log(`  Enter a ${CONFIG.wordLength}-letter word`);
+      continue;
+    }
+    game = reduceGame(reduceGame(game, { type: "set-guess", value: guess }), { type: "submit" });
+    if (game.error) {
+      console.log(`  ${game.error}`);
+      continue;
+    }
+    console.log(`\n  ${formatRow(game.rows[game.rows.length - 1])}\n`);
+    if (game.status === "playing") console.log(`${formatKeyboard(getGameKeyboard(game))}\n`);
+  }
+
+  if (game.status === "won") {
+    console.log(`Solved in ${game.rows.length}/${CONFIG.maxGuesses}!`);
+  } else if (game.rows.length > 0) {
+    console.log(`\nThe word was ${puzzle.solution.toUpperCase()}.`);
+  }
+  return game;
+}
+
+async function runPlay(seed: number | undefined, hardMode: boolean) {
+  const storage = createFileStorage(STATS_FILE);
+  const prompter = createPrompter();
+  try {
+    do {
+      let store = loadStatsStore(storage);
+      const puzzle = pickPuzzle(seed, store);
+      const game = await playGame(prompter, puzzle, hardMode);
+      // Quitting before the first guess doesn't count as a game.
+      if (game.rows.length === 0) break;
+      const entry = createHistoryEntry(
+        puzzle.solution,
+        getGuessWords(game),
+        game.status === "won",
+        { ...CONFIG, hardMode },
+        puzzle.id,
+      );
+      store = recordGame(store, entry);
+      saveStatsStore(storage, store);
+      // A seeded word is the same every time, so there's nothing new to offer.
+      if (seed !== undefined) break;
+    } while ((await prompter.ask("\nAnother? [y/N] "))?.trim().toLowerCase().startsWith("y"));
+  } finally {
+    prompter.close();
+  }
+}
+
+/** Turns `gy--g` style feedback into a row; `g` green, `y` yellow, anything else gray. */
+function parseFeedback(guess: string, feedback: string): LetterEvaluation[] | null {
+  const codes = feedback.trim().toLowerCase();
+  if (codes.length !== guess.length) return null;
+  return guess.split("").map((letter, index) => ({
+    letter,
+    state: codes[index] === "g" ? "correct" : codes[index] === "y" ? "present" : "absent",
+  }));
+}
+
+async function runSolve(hardMode: boolean) {
+  const prompter = createPrompter();
+  const rows: LetterEvaluation[][] = [];
+  console.log("Enter each guess you played, then its colors: g green, y yellow, - gray.");
+  try {
+    while (rows.length < CONFIG.maxGuesses) {
+      const { candidates, suggestions } = getHint(rows, {
+        config: CONFIG,
+        hardMode,
+        limit: MAX_SUGGESTIONS,
+      });
+      if (candidates.length === 0) {
+        console.log("No word fits that feedback; check the colors you entered.");
+        return;
+      }
+      if (candidates.length === 1) {
+        console.log(`\nIt's ${candidates[0].toUpperCase()}.`);
+        return;
+      }
+      console.log(`\n${candidates.length} words left. Best guesses:`);
+      for (const suggestion of suggestions) {
+        console.log(
+          `  ${suggestion.word.toUpperCase()}  ${suggestion.entropy.toFixed(2)} bits, ` +
+            `~${suggestion.expectedRemaining.toFixed(1)} left${suggestion.isCandidate ? " *" : ""}`,
+        );
+      }
+
+      const answer = await prompter.ask(`\nGuess ${rows.length + 1} [${suggestions[0].word}]: `);
+      if (answer === null) return;
+      const guess = normalizeGuess(answer) || suggestions[0].word;
+      if (!isValidGuess(guess, CONFIG)) {
+        console.log(`  ${guess.toUpperCase()} isn't in the word list`);
+        continue;
+      }
+      const feedback = await prompter.ask("Colors: ");
+      if (feedback === null) return;
+      const row = parseFeedback(guess, feedback);
+      if (!row) {
+        console.log(`  Give one color per letter, e.g. gy--g`);
+        continue;
+      }
+      console.log(`  ${formatRow(row)}`);
+      if (row.every((entry) => entry.state === "correct")) {
+        console.log(`\nSolved in ${rows.length + 1}.`);
+        return;
+      }
+      rows.push(row);
+    }
+    console.log("\nOut of guesses.");
+  } finally {
+    prompter.close();
+  }
+}
+
+function runStats() {
+  const store = loadStatsStore(createFileStorage(STATS_FILE));
+  const stats = getVariantStats(store, CONFIG);
+  const winRate =
+    stats.totalPlayed === 0 ? 0 : Math.round((stats.totalWon / stats.totalPlayed) * 100);
+  const average = getAverageGuesses(stats);
+  const maxCount = Math.max(1, ...stats.guessDistribution);
+
+  console.log(`${CONFIG.wordLength} letters · ${CONFIG.maxGuesses} guesses  (${STATS_FILE})\n`);
+  console.log(
+    `Played ${stats.totalPlayed}  Win % ${winRate}  Streak ${stats.currentStreak}  ` +
+      `Max streak ${stats.maxStreak}  Avg ${average?.toFixed(2) ?? "–"}\n`,
+  );
+  stats.guessDistribution.forEach((count, index) => {
+    const bar = "█".repeat(Math.round((count / maxCount) * 20));
+    console.log(`${index + 1} ${bar} ${count}`);
+  });
+
+  const recent = store.history.slice(0, 5);
+  if (recent.length > 0) {
+    console.log("\nRecent:");
+    for (const entry of recent) {
+      const score = entry.result === "won" ? entry.guesses.length : "X";
+      console.log(`  ${entry.solution.toUpperCase()}  ${score}/${entry.mode.maxGuesses}`);
+    }
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      seed: { type: "string" },
+      hard: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command = "play"] = positionals;
+  const seed = values.seed === undefined ? undefined : Number(values.seed);
+  if (values.help || !["play", "solve", "stats"].includes(command)) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    console.error(`--seed takes a whole number, not "${values.seed}"`);
+    process.exit(1);
+  }
+
+  await loadGuessDictionary(CONFIG.wordLength);
+
+  if (command === "stats") {
+    runStats();
+  } else if (command === "solve") {
+    await runSolve(values.hard);
+  } else {
+    await runPlay(seed, values.hard);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,5 @@
+declare module "wordlist-english" {
+  /** Keys look like `english/10` or `english/american/35`; lower bands are more common. */
+  const wordlist: Record<string, string[] | undefined>;
+  export default wordlist;
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig leaves JSX for Next to compile, so the test transform has to handle it itself.
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["**/*.test.{ts,tsx}"],
+    exclude: ["node_modules/**", ".next/**"],
+  },
+});